@@ -0,0 +1,263 @@
+use crate::library::LibraryTrack;
+use crate::metadata::has_audio_extension;
+use std::path::{Path, PathBuf};
+
+// INDEX times are minutes:seconds:frames, at 75 frames per second (CD sectors)
+const FRAMES_PER_SECOND: f64 = 75.0;
+
+/// A parsed CUE sheet: one or more audio files, each split into tracks
+#[derive(Default)]
+pub struct CueSheet {
+    title: Option<String>,
+    performer: Option<String>,
+    files: Vec<CueFile>,
+}
+
+struct CueFile {
+    name: String,
+    tracks: Vec<CueTrack>,
+}
+
+#[derive(Clone)]
+pub struct CueTrack {
+    number: u32,
+    title: Option<String>,
+    performer: Option<String>,
+    // INDEX 01, in seconds from the start of the file
+    start: f64,
+}
+
+/// The part of a sheet that describes one audio file
+pub struct FileCue {
+    album: Option<String>,
+    album_artist: Option<String>,
+    tracks: Vec<CueTrack>,
+}
+
+// A command's first argument, quoted or not, and whatever follows it
+fn argument(rest: &str) -> (String, &str) {
+    let rest = rest.trim_start();
+    if let Some(quoted) = rest.strip_prefix('"') {
+        match quoted.find('"') {
+            Some(end) => (quoted[..end].to_string(), &quoted[end + 1..]),
+            None => (quoted.to_string(), ""),
+        }
+    } else {
+        let end = rest.find(char::is_whitespace).unwrap_or(rest.len());
+        (rest[..end].to_string(), &rest[end..])
+    }
+}
+
+fn parse_time(value: &str) -> Option<f64> {
+    let parts: Vec<u32> = value.split(':').map(|p| p.trim().parse().ok()).collect::<Option<_>>()?;
+    match parts[..] {
+        [minutes, seconds, frames] => {
+            Some(minutes as f64 * 60.0 + seconds as f64 + frames as f64 / FRAMES_PER_SECOND)
+        }
+        _ => None,
+    }
+}
+
+/// Parse a sheet's text. Unknown commands (REM, FLAGS, ISRC...) are skipped,
+/// and so are tracks without an INDEX 01.
+pub fn parse(text: &str) -> CueSheet {
+    let mut sheet = CueSheet::default();
+    // Track being read, until its INDEX 01 turns up
+    let mut pending: Option<CueTrack> = None;
+
+    for line in text.lines() {
+        let line = line.trim().trim_start_matches('\u{feff}');
+        let (command, rest) = line.split_once(char::is_whitespace).unwrap_or((line, ""));
+        match command.to_ascii_uppercase().as_str() {
+            "FILE" => {
+                pending = None;
+                sheet.files.push(CueFile { name: argument(rest).0, tracks: Vec::new() });
+            }
+            "TRACK" => {
+                let number = argument(rest).0.parse().unwrap_or(0);
+                pending = Some(CueTrack { number, title: None, performer: None, start: 0.0 });
+            }
+            "TITLE" | "PERFORMER" => {
+                let value = Some(argument(rest).0).filter(|v| !v.is_empty());
+                let is_title = command.eq_ignore_ascii_case("TITLE");
+                // Before the first TRACK these describe the whole album
+                let current = match pending.as_mut() {
+                    Some(track) => track,
+                    None => match sheet.files.last_mut().and_then(|f| f.tracks.last_mut()) {
+                        Some(track) => track,
+                        None => {
+                            if is_title {
+                                sheet.title = value;
+                            } else {
+                                sheet.performer = value;
+                            }
+                            continue;
+                        }
+                    },
+                };
+                if is_title {
+                    current.title = value;
+                } else {
+                    current.performer = value;
+                }
+            }
+            "INDEX" => {
+                let (index, rest) = argument(rest);
+                if index.parse::<u32>().ok() != Some(1) {
+                    continue;
+                }
+                let (Some(mut track), Some(file)) = (pending.take(), sheet.files.last_mut()) else {
+                    continue;
+                };
+                if let Some(start) = parse_time(&argument(rest).0) {
+                    track.start = start;
+                    file.tracks.push(track);
+                }
+            }
+            _ => {}
+        }
+    }
+    sheet
+}
+
+/// Read a text file that came with the audio (a sheet, lyrics). These are
+/// often in a legacy encoding; anything that isn't UTF-8 is read as Latin-1
+/// rather than rejected.
+pub fn read_text(path: &Path) -> Option<String> {
+    let bytes = std::fs::read(path).ok()?;
+    Some(match String::from_utf8(bytes) {
+        Ok(text) => text,
+        Err(e) => e.into_bytes().iter().map(|&b| b as char).collect(),
+    })
+}
+
+pub fn read_sheet(path: &Path) -> Option<CueSheet> {
+    read_text(path).map(|text| parse(&text))
+}
+
+pub fn is_cue_file(path: &Path) -> bool {
+    path.extension()
+        .map(|e| e.eq_ignore_ascii_case("cue"))
+        .unwrap_or(false)
+}
+
+fn stem(path: &Path) -> String {
+    path.file_stem()
+        .map(|s| s.to_string_lossy().to_lowercase())
+        .unwrap_or_default()
+}
+
+impl CueSheet {
+    fn file_cue(&self, file: &CueFile) -> FileCue {
+        FileCue {
+            album: self.title.clone(),
+            album_artist: self.performer.clone(),
+            tracks: file.tracks.clone(),
+        }
+    }
+
+    /// The entry for an audio file. Sheets are often left pointing at the
+    /// original rip ("Album.wav" for what's now "Album.flac"), so a FILE
+    /// with the same name but another extension matches too.
+    fn for_file(&self, audio: &Path) -> Option<FileCue> {
+        let name = audio.file_name()?.to_string_lossy().to_lowercase();
+        let file = self
+            .files
+            .iter()
+            .find(|f| f.name.to_lowercase() == name)
+            .or_else(|| self.files.iter().find(|f| stem(Path::new(&f.name)) == stem(audio)))?;
+        Some(self.file_cue(file))
+    }
+
+    /// An embedded sheet describes the file it's in, whatever name it gives
+    fn embedded(&self) -> Option<FileCue> {
+        let mut tracks: Vec<CueTrack> = self.files.iter().flat_map(|f| f.tracks.clone()).collect();
+        tracks.sort_by(|a, b| a.start.total_cmp(&b.start));
+        (!tracks.is_empty()).then(|| FileCue {
+            album: self.title.clone(),
+            album_artist: self.performer.clone(),
+            tracks,
+        })
+    }
+
+    /// Audio files of a dropped sheet, found next to it
+    pub fn resolve(&self, cue_path: &Path) -> Vec<(PathBuf, FileCue)> {
+        let Some(dir) = cue_path.parent() else {
+            return Vec::new();
+        };
+        let siblings: Vec<PathBuf> = std::fs::read_dir(dir)
+            .map(|entries| entries.flatten().map(|e| e.path()).collect())
+            .unwrap_or_default();
+        self.files
+            .iter()
+            .filter_map(|file| {
+                let named = dir.join(&file.name);
+                let audio = if named.is_file() && has_audio_extension(&named) {
+                    named
+                } else {
+                    let wanted = stem(Path::new(&file.name));
+                    siblings.iter().find(|p| has_audio_extension(p) && stem(p) == wanted)?.clone()
+                };
+                Some((audio, self.file_cue(file)))
+            })
+            .collect()
+    }
+}
+
+/// Turn a file's library entry into one entry per track of the sheet, each
+/// playing its own range of the file
+pub fn split(file: &LibraryTrack, cue: &FileCue) -> Vec<LibraryTrack> {
+    let meta = &file.metadata;
+    cue.tracks
+        .iter()
+        .enumerate()
+        .map(|(i, track)| {
+            // Up to the next track's INDEX 01; the last one plays to the end
+            let end = cue.tracks.get(i + 1).map(|next| next.start);
+            let duration = match end {
+                Some(end) => Some((end - track.start).max(0.0).round() as u64),
+                None => meta.duration.map(|d| (d as f64 - track.start).max(0.0).round() as u64),
+            };
+            let mut metadata = meta.clone();
+            metadata.title = track.title.clone().or_else(|| Some(format!("Track {}", track.number)));
+            metadata.artist = track.performer.clone().or_else(|| cue.album_artist.clone()).or_else(|| meta.artist.clone());
+            metadata.album = cue.album.clone().or_else(|| meta.album.clone());
+            metadata.album_artist = cue.album_artist.clone().or_else(|| meta.album_artist.clone());
+            metadata.track_number = Some(track.number);
+            metadata.duration = duration;
+            metadata.cuesheet = None;
+            LibraryTrack {
+                path: file.path.clone(),
+                metadata,
+                thumbnail: file.thumbnail.clone(),
+                start: Some(track.start),
+                end,
+            }
+        })
+        .collect()
+}
+
+/// A sidecar .cue with an entry for this audio file, as stored with the
+/// file's library entry
+pub fn sidecar_sheet(audio: &Path) -> Option<String> {
+    std::fs::read_dir(audio.parent()?)
+        .ok()?
+        .flatten()
+        .map(|e| e.path())
+        .filter(|p| is_cue_file(p))
+        .filter_map(|p| read_text(&p))
+        .find(|text| parse(text).for_file(audio).is_some())
+}
+
+/// A file's tracks: split up by its sheet if it has one, or the file as it is.
+/// The sheet may list several files, or (embedded) name the file differently.
+pub fn expand(track: LibraryTrack) -> Vec<LibraryTrack> {
+    let cue = track.metadata.cuesheet.as_deref().and_then(|text| {
+        let sheet = parse(text);
+        sheet.for_file(Path::new(&track.path)).or_else(|| sheet.embedded())
+    });
+    match cue {
+        Some(cue) if !cue.tracks.is_empty() => split(&track, &cue),
+        _ => vec![track],
+    }
+}
@@ -0,0 +1,59 @@
+use crate::tray::COMMAND_EVENT;
+use std::collections::HashMap;
+use std::sync::Mutex;
+use tauri::{AppHandle, Emitter, Manager, Runtime, State};
+use tauri_plugin_global_shortcut::{GlobalShortcutExt, Shortcut, ShortcutEvent, ShortcutState};
+
+/// Registered system-wide shortcuts and the keymap command each one runs
+#[derive(Default)]
+pub struct HotkeyBindings(Mutex<HashMap<u32, String>>);
+
+#[derive(serde::Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct GlobalBinding {
+    // Accelerator, e.g. "CommandOrControl+Alt+Space" or "MediaPlayPause"
+    accelerator: String,
+    command: String,
+}
+
+/// Handler for the global-shortcut plugin: forwards presses to the frontend
+/// like the tray menu does
+pub fn handle<R: Runtime>(app: &AppHandle<R>, shortcut: &Shortcut, event: ShortcutEvent) {
+    if event.state() != ShortcutState::Pressed {
+        return;
+    }
+    let command = app.state::<HotkeyBindings>().0.lock().unwrap().get(&shortcut.id()).cloned();
+    if let Some(command) = command {
+        let _ = app.emit(COMMAND_EVENT, command);
+    }
+}
+
+/// Replace all global shortcuts. Returns the accelerators that couldn't be
+/// registered, usually because another app already holds them.
+#[tauri::command]
+pub fn set_global_shortcuts(
+    app: AppHandle,
+    bindings: Vec<GlobalBinding>,
+    state: State<'_, HotkeyBindings>,
+) -> Vec<String> {
+    let shortcuts = app.global_shortcut();
+    let _ = shortcuts.unregister_all();
+    let mut registered = state.0.lock().unwrap();
+    registered.clear();
+
+    let mut failed = Vec::new();
+    for binding in bindings {
+        let result = binding
+            .accelerator
+            .parse::<Shortcut>()
+            .map_err(|e| e.to_string())
+            .and_then(|shortcut| shortcuts.register(shortcut).map(|_| shortcut).map_err(|e| e.to_string()));
+        match result {
+            Ok(shortcut) => {
+                registered.insert(shortcut.id(), binding.command);
+            }
+            Err(_) => failed.push(binding.accelerator),
+        }
+    }
+    failed
+}
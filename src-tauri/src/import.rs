@@ -0,0 +1,188 @@
+use crate::cue::{self, FileCue};
+use crate::library::{Library, LibraryTrack};
+use crate::metadata::{has_audio_extension, AudioMetadata};
+use crate::music_folders::MusicFolders;
+use std::collections::HashMap;
+use std::path::{Path, PathBuf};
+use tauri::ipc::Channel;
+use tauri::State;
+
+// How often to report progress while reading tags
+const PROGRESS_INTERVAL: usize = 25;
+
+#[derive(serde::Serialize)]
+#[serde(rename_all = "camelCase", tag = "event", content = "data")]
+pub enum ImportEvent {
+    // Paths outside the music folders, and the folders that would need
+    // adding to import them
+    Rejected { paths: Vec<String>, folders: Vec<String> },
+    Started { total: usize },
+    // One folder's worth of tracks, already in album order
+    Tracks { tracks: Vec<LibraryTrack> },
+    Progress { done: usize, total: usize },
+    Finished { total: usize },
+}
+
+pub(crate) fn is_hidden(path: &Path) -> bool {
+    path.file_name()
+        .map(|n| n.to_string_lossy().starts_with('.'))
+        .unwrap_or(false)
+}
+
+// Collect audio files folder by folder: each folder's own files form one
+// group, followed by the groups of its subfolders in name order. Symlinked
+// folders are not followed, which rules out cycles.
+pub(crate) fn collect_folder(dir: &Path, groups: &mut Vec<Vec<PathBuf>>) {
+    let Ok(entries) = std::fs::read_dir(dir) else {
+        return;
+    };
+
+    let mut files = Vec::new();
+    let mut subdirs = Vec::new();
+    for entry in entries.flatten() {
+        let path = entry.path();
+        if is_hidden(&path) {
+            continue;
+        }
+        match entry.file_type() {
+            Ok(ft) if ft.is_dir() => subdirs.push(path),
+            Ok(_) if has_audio_extension(&path) && path.is_file() => files.push(path),
+            _ => {}
+        }
+    }
+
+    if !files.is_empty() {
+        groups.push(files);
+    }
+    subdirs.sort();
+    for sub in subdirs {
+        collect_folder(&sub, groups);
+    }
+}
+
+// Disc, then track number from the tags; untagged files go last, by file name
+fn sort_album(tracks: &mut [LibraryTrack]) {
+    tracks.sort_by(|a, b| {
+        let key = |t: &LibraryTrack| {
+            (
+                t.metadata.disc_number.unwrap_or(1),
+                t.metadata.track_number.unwrap_or(u32::MAX),
+            )
+        };
+        key(a).cmp(&key(b)).then_with(|| a.path.cmp(&b.path))
+    });
+}
+
+fn run_import(
+    paths: Vec<String>,
+    folders: &MusicFolders,
+    library: &Library,
+    on_event: &Channel<ImportEvent>,
+) -> Result<(), String> {
+    let send = |event: ImportEvent| on_event.send(event).map_err(|e| e.to_string());
+
+    // Files dropped or picked individually keep the order they were given in
+    let mut loose: Vec<PathBuf> = Vec::new();
+    // Sheets dropped as .cue files, by the audio file they split up
+    let mut dropped_cues: HashMap<PathBuf, FileCue> = HashMap::new();
+    let mut groups = Vec::new();
+    let mut rejected = Vec::new();
+    let mut needed: Vec<String> = Vec::new();
+    for p in &paths {
+        let path = PathBuf::from(p);
+        if !folders.contains(&path) {
+            // A folder would be added as is, a file by its parent folder
+            let folder = if path.is_dir() { Some(path.as_path()) } else { path.parent() };
+            if let Some(folder) = folder.map(|f| f.to_string_lossy().into_owned()) {
+                if !needed.contains(&folder) {
+                    needed.push(folder);
+                }
+            }
+            rejected.push(p.clone());
+            continue;
+        }
+        if path.is_dir() {
+            collect_folder(&path, &mut groups);
+        } else if cue::is_cue_file(&path) {
+            let Some(sheet) = cue::read_sheet(&path) else {
+                continue;
+            };
+            for (audio, file_cue) in sheet.resolve(&path) {
+                if !folders.contains(&audio) {
+                    continue;
+                }
+                if !loose.contains(&audio) {
+                    loose.push(audio.clone());
+                }
+                dropped_cues.insert(audio, file_cue);
+            }
+        } else if has_audio_extension(&path) && path.is_file() && !loose.contains(&path) {
+            loose.push(path);
+        }
+    }
+
+    if !rejected.is_empty() {
+        send(ImportEvent::Rejected { paths: rejected, folders: needed })?;
+    }
+
+    let total = loose.len() + groups.iter().map(|g| g.len()).sum::<usize>();
+    send(ImportEvent::Started { total })?;
+
+    let mut done = 0;
+    let mut read_group = |files: Vec<PathBuf>, sorted: bool| -> Result<(), String> {
+        let mut tracks = Vec::with_capacity(files.len());
+        for file in files {
+            // Files whose tags can't be read still import, named after the file
+            tracks.push(library.track(&file).unwrap_or_else(|| LibraryTrack {
+                path: file.to_string_lossy().into_owned(),
+                metadata: AudioMetadata::default(),
+                thumbnail: None,
+                start: None,
+                end: None,
+            }));
+            done += 1;
+            if done % PROGRESS_INTERVAL == 0 {
+                send(ImportEvent::Progress { done, total })?;
+            }
+        }
+        if sorted {
+            sort_album(&mut tracks);
+        }
+        // Files with a CUE sheet become its tracks, in the sheet's order
+        let tracks = tracks
+            .into_iter()
+            .flat_map(|track| match dropped_cues.remove(Path::new(&track.path)) {
+                Some(file_cue) => cue::split(&track, &file_cue),
+                None => cue::expand(track),
+            })
+            .collect();
+        send(ImportEvent::Tracks { tracks })
+    };
+
+    if !loose.is_empty() {
+        read_group(loose, false)?;
+    }
+    for group in groups {
+        read_group(group, true)?;
+    }
+
+    send(ImportEvent::Finished { total })
+}
+
+/// Import dropped or chosen files and folders. Folders are walked
+/// recursively and tags come from the library, read on a background thread
+/// for files it doesn't know yet; results stream
+/// back over `on_event` one folder at a time so the UI stays responsive.
+#[tauri::command]
+pub async fn import_paths(
+    paths: Vec<String>,
+    on_event: Channel<ImportEvent>,
+    folders: State<'_, MusicFolders>,
+    library: State<'_, Library>,
+) -> Result<(), String> {
+    let folders = folders.inner().clone();
+    let library = library.inner().clone();
+    tauri::async_runtime::spawn_blocking(move || run_import(paths, &folders, &library, &on_event))
+        .await
+        .map_err(|e| e.to_string())?
+}
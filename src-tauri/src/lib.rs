@@ -1,88 +1,120 @@
-use base64::prelude::*;
-use lofty::prelude::*;
-use lofty::probe::Probe;
-use std::path::Path;
-
-#[derive(serde::Serialize)]
-struct AudioMetadata {
-    title: Option<String>,
-    artist: Option<String>,
-    album: Option<String>,
-    duration: Option<u64>,
-    cover: Option<String>,
-}
-
-// Validate that the path is safe and allowed
-fn is_valid_audio_path(path: &Path) -> bool {
-    // Check if path exists
-    if !path.exists() {
-        return false;
-    }
-
-    // Check if it's a file (not a directory)
-    if !path.is_file() {
-        return false;
-    }
+mod cue;
+#[cfg(desktop)]
+mod hotkeys;
+mod import;
+mod library;
+mod lyrics;
+mod metadata;
+mod music_folders;
+mod playlist_file;
+mod stream;
+mod tags;
+mod thumbnails;
+#[cfg(desktop)]
+mod tray;
+mod waveform;
+#[cfg(desktop)]
+mod window_mode;
 
-    // Validate file extension
-    if let Some(ext) = path.extension() {
-        let ext_lower = ext.to_string_lossy().to_lowercase();
-        matches!(
-            ext_lower.as_str(),
-            "mp3" | "m4a" | "flac" | "wav" | "ogg" | "opus" | "aac" | "wma"
-        )
-    } else {
-        false
-    }
-}
+use metadata::{read_metadata, AudioMetadata};
+use music_folders::MusicFolders;
+use std::path::Path;
+use tauri::{Manager, State};
 
 #[tauri::command]
-fn get_metadata(path: String) -> Option<AudioMetadata> {
+fn get_metadata(path: String, folders: State<'_, MusicFolders>) -> Option<AudioMetadata> {
     let path = Path::new(&path);
-
-    // Validate path before processing
-    if !is_valid_audio_path(path) {
+    if !folders.contains(path) {
         return None;
     }
+    read_metadata(path)
+}
 
-    let tagged_file_res = Probe::open(path).ok().and_then(|probe| probe.read().ok());
-
-    if let Some(tagged_file) = tagged_file_res {
-        let tag = tagged_file
-            .primary_tag()
-            .or_else(|| tagged_file.first_tag());
-        let properties = tagged_file.properties();
-
-        let mut cover_base64 = None;
-        if let Some(t) = tag {
-            if let Some(picture) = t.pictures().first() {
-                let b64 = BASE64_STANDARD.encode(picture.data());
-                let mime = picture
-                    .mime_type()
-                    .map(|m| m.as_str())
-                    .unwrap_or("image/jpeg");
-                cover_base64 = Some(format!("data:{};base64,{}", mime, b64));
-            }
-        }
-
-        return Some(AudioMetadata {
-            title: tag.and_then(|t| t.title().map(|s| s.into_owned())),
-            artist: tag.and_then(|t| t.artist().map(|s| s.into_owned())),
-            album: tag.and_then(|t| t.album().map(|s| s.into_owned())),
-            duration: Some(properties.duration().as_secs()),
-            cover: cover_base64,
-        });
-    }
-
-    None
+// Used when restoring a saved session to flag tracks whose files have gone missing
+#[tauri::command]
+fn paths_exist(paths: Vec<String>) -> Vec<bool> {
+    paths.iter().map(|p| Path::new(p).is_file()).collect()
 }
 
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
-    tauri::Builder::default()
+    let builder = tauri::Builder::default()
+        .manage(MusicFolders::default())
+        .manage(waveform::WaveformJobs::default())
         .plugin(tauri_plugin_opener::init())
         .plugin(tauri_plugin_fs::init())
-        .invoke_handler(tauri::generate_handler![get_metadata])
-        .run(tauri::generate_context!())
-        .expect("error while running tauri application");
+        .plugin(tauri_plugin_dialog::init())
+        .setup(|app| {
+            app.manage(library::Library::open(app.handle())?);
+            #[cfg(desktop)]
+            tray::setup(app.handle())?;
+            Ok(())
+        });
+
+    #[cfg(desktop)]
+    let builder = builder
+        .manage(tray::KeepPlaying::default())
+        .manage(hotkeys::HotkeyBindings::default())
+        .plugin(
+            tauri_plugin_global_shortcut::Builder::new()
+                .with_handler(hotkeys::handle)
+                .build(),
+        )
+        // With "keep playing" on, closing the window only hides it and the
+        // tray takes over
+        .on_window_event(|window, event| {
+            if let tauri::WindowEvent::CloseRequested { api, .. } = event {
+                let keep_playing = window.state::<tray::KeepPlaying>();
+                if keep_playing.0.load(std::sync::atomic::Ordering::SeqCst) {
+                    api.prevent_close();
+                    let _ = window.hide();
+                }
+            }
+        });
+
+    builder
+        // Audio is streamed from disk with range requests rather than read
+        // into memory up front; file I/O happens off the webview's thread
+        .register_asynchronous_uri_scheme_protocol(stream::SCHEME, |ctx, request, responder| {
+            let folders = ctx.app_handle().state::<MusicFolders>().inner().clone();
+            tauri::async_runtime::spawn_blocking(move || {
+                responder.respond(stream::handle(&request, &folders))
+            });
+        })
+        .invoke_handler(tauri::generate_handler![
+            get_metadata,
+            paths_exist,
+            import::import_paths,
+            playlist_file::read_playlist,
+            playlist_file::write_playlist,
+            tags::write_tags,
+            music_folders::set_music_folders,
+            music_folders::default_music_folders,
+            music_folders::check_playable,
+            waveform::get_waveform,
+            library::library_status,
+            library::rescan_library,
+            library::library_artists,
+            library::library_albums,
+            library::library_tracks,
+            library::library_track,
+            lyrics::get_lyrics,
+            #[cfg(desktop)]
+            tray::update_tray,
+            #[cfg(desktop)]
+            tray::set_keep_playing,
+            #[cfg(desktop)]
+            hotkeys::set_global_shortcuts,
+            #[cfg(desktop)]
+            window_mode::set_mini_player
+        ])
+        .build(tauri::generate_context!())
+        .expect("error while running tauri application")
+        .run(|_app, _event| {
+            // Clicking the dock icon brings a hidden window back
+            #[cfg(target_os = "macos")]
+            if let tauri::RunEvent::Reopen { has_visible_windows: false, .. } = _event {
+                tray::show_main_window(_app);
+            }
+        });
 }
@@ -0,0 +1,692 @@
+use crate::cue;
+use crate::import::{collect_folder, is_hidden};
+use crate::metadata::{has_audio_extension, read_tags, AudioMetadata};
+use crate::music_folders::{MusicFolders, OUTSIDE_MESSAGE};
+use crate::thumbnails;
+use notify_debouncer_mini::notify::{RecommendedWatcher, RecursiveMode};
+use notify_debouncer_mini::{new_debouncer, DebounceEventResult, Debouncer};
+use rusqlite::{params, Connection, OptionalExtension, Row};
+use std::collections::{HashMap, HashSet};
+use std::path::{Path, PathBuf, MAIN_SEPARATOR};
+use std::sync::atomic::{AtomicBool, AtomicU64, Ordering};
+use std::sync::{Arc, Mutex};
+use std::time::{Duration, UNIX_EPOCH};
+use tauri::{AppHandle, Emitter, Manager, State};
+
+const DB_FILE: &str = "library.db";
+// The library is only a cache of what's on disk, so a database from an
+// older version is dropped and rebuilt rather than migrated
+const SCHEMA_VERSION: i32 = 3;
+// Changes are applied once a folder has been quiet this long, so copying
+// in a whole album is indexed in one go
+const WATCH_DELAY: Duration = Duration::from_secs(2);
+// Newly indexed files between status updates while scanning
+const STATUS_INTERVAL: usize = 200;
+
+/// Emitted with the `LibraryStatus` whenever the indexed tracks change
+pub const LIBRARY_EVENT: &str = "library-changed";
+
+// Artists are grouped by album artist where tagged, so compilations stay
+// together; untagged files still land somewhere
+const ARTIST_KEY: &str = "COALESCE(NULLIF(album_artist, ''), NULLIF(artist, ''), 'Unknown Artist')";
+const ALBUM_KEY: &str = "COALESCE(NULLIF(album, ''), 'Unknown Album')";
+
+const TRACK_COLUMNS: &str = "path, title, artist, album, album_artist, year, genre, duration, \
+    track_number, disc_number, rg_track_gain, rg_track_peak, rg_album_gain, rg_album_peak, \
+    codec, bitrate, sample_rate, channels, thumbnail, cuesheet";
+
+#[derive(Clone, serde::Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct LibraryTrack {
+    pub path: String,
+    pub metadata: AudioMetadata,
+    // Cover thumbnail in the app's cache; the metadata carries no cover
+    pub thumbnail: Option<String>,
+    // Range of the file played, in seconds, for a track of a CUE sheet.
+    // No end means to the end of the file.
+    pub start: Option<f64>,
+    pub end: Option<f64>,
+}
+
+#[derive(serde::Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ArtistSummary {
+    name: String,
+    albums: u32,
+    tracks: u32,
+}
+
+#[derive(serde::Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct AlbumSummary {
+    title: String,
+    artist: String,
+    year: Option<u32>,
+    tracks: u32,
+    // Seconds
+    duration: u64,
+    thumbnail: Option<String>,
+}
+
+#[derive(Clone, serde::Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct LibraryStatus {
+    tracks: u32,
+    scanning: bool,
+}
+
+/// Tags and cover thumbnails of everything in the music folders, kept in
+/// SQLite and keyed by path, size and modification time. A scan at startup
+/// catches up with changes made while the app was closed; after that the
+/// folders are watched.
+#[derive(Clone)]
+pub struct Library(Arc<Inner>);
+
+struct Inner {
+    db: Mutex<Connection>,
+    thumbnails: PathBuf,
+    roots: Mutex<Vec<PathBuf>>,
+    watcher: Mutex<Option<Debouncer<RecommendedWatcher>>>,
+    // Bumped for every scan; a running scan stops once it's out of date
+    scan: AtomicU64,
+    scanning: AtomicBool,
+}
+
+fn init_db(db: &Connection) -> rusqlite::Result<()> {
+    db.pragma_update_and_check(None, "journal_mode", "WAL", |_| Ok(()))?;
+    let version: i32 = db.query_row("PRAGMA user_version", [], |row| row.get(0))?;
+    if version != SCHEMA_VERSION {
+        db.execute_batch("DROP TABLE IF EXISTS tracks;")?;
+    }
+    db.execute_batch(&format!(
+        "CREATE TABLE IF NOT EXISTS tracks (
+            path TEXT PRIMARY KEY,
+            size INTEGER NOT NULL,
+            mtime INTEGER NOT NULL,
+            title TEXT,
+            artist TEXT,
+            album TEXT,
+            album_artist TEXT,
+            year INTEGER,
+            genre TEXT,
+            duration INTEGER,
+            track_number INTEGER,
+            disc_number INTEGER,
+            rg_track_gain REAL,
+            rg_track_peak REAL,
+            rg_album_gain REAL,
+            rg_album_peak REAL,
+            codec TEXT,
+            bitrate INTEGER,
+            sample_rate INTEGER,
+            channels INTEGER,
+            thumbnail TEXT,
+            cuesheet TEXT
+        );
+        CREATE INDEX IF NOT EXISTS tracks_artist ON tracks ({artist});
+        CREATE INDEX IF NOT EXISTS tracks_album ON tracks ({album});
+        PRAGMA user_version = {version};",
+        artist = ARTIST_KEY,
+        album = ALBUM_KEY,
+        version = SCHEMA_VERSION
+    ))
+}
+
+fn open_db(path: &Path) -> rusqlite::Result<Connection> {
+    let db = Connection::open(path)?;
+    init_db(&db)?;
+    Ok(db)
+}
+
+fn modified_ns(meta: &std::fs::Metadata) -> Option<i64> {
+    let modified = meta.modified().ok()?.duration_since(UNIX_EPOCH).ok()?;
+    Some(modified.as_nanos() as i64)
+}
+
+// Newest modification time (ns) of the CUE sheets in a folder, 0 if none
+fn sheets_modified(dir: &Path) -> i64 {
+    std::fs::read_dir(dir)
+        .map(|entries| {
+            entries
+                .flatten()
+                .filter(|e| cue::is_cue_file(&e.path()))
+                .filter_map(|e| e.metadata().ok().as_ref().and_then(modified_ns))
+                .max()
+                .unwrap_or(0)
+        })
+        .unwrap_or(0)
+}
+
+// Size and modification time (ns), given the folder's `sheets_modified`.
+// A file is re-read when either changes, or when a sheet next to it does.
+fn stamp_with(path: &Path, sheets: i64) -> Option<(i64, i64)> {
+    let meta = std::fs::metadata(path).ok()?;
+    Some((meta.len() as i64, modified_ns(&meta)?.max(sheets)))
+}
+
+fn file_stamp(path: &Path) -> Option<(i64, i64)> {
+    stamp_with(path, path.parent().map(sheets_modified).unwrap_or(0))
+}
+
+// Grouping keys of the SQL queries (ARTIST_KEY, ALBUM_KEY), for tracks of
+// CUE sheets, which are only split up outside the database
+fn artist_key(m: &AudioMetadata) -> String {
+    [&m.album_artist, &m.artist]
+        .into_iter()
+        .flatten()
+        .find(|s| !s.is_empty())
+        .cloned()
+        .unwrap_or_else(|| "Unknown Artist".into())
+}
+
+fn album_key(m: &AudioMetadata) -> String {
+    m.album.clone().filter(|s| !s.is_empty()).unwrap_or_else(|| "Unknown Album".into())
+}
+
+// Files with a CUE sheet, as the sheet's tracks. These are listed under the
+// sheet's album and performer rather than the file's tags.
+fn sheet_tracks(db: &Connection) -> rusqlite::Result<Vec<LibraryTrack>> {
+    let mut stmt = db.prepare(&format!("SELECT {} FROM tracks WHERE cuesheet IS NOT NULL", TRACK_COLUMNS))?;
+    let files = stmt.query_map([], track_from_row)?.collect::<rusqlite::Result<Vec<_>>>()?;
+    Ok(files.into_iter().flat_map(cue::expand).collect())
+}
+
+fn track_from_row(row: &Row) -> rusqlite::Result<LibraryTrack> {
+    Ok(LibraryTrack {
+        path: row.get(0)?,
+        metadata: AudioMetadata {
+            title: row.get(1)?,
+            artist: row.get(2)?,
+            album: row.get(3)?,
+            album_artist: row.get(4)?,
+            year: row.get(5)?,
+            genre: row.get(6)?,
+            duration: row.get(7)?,
+            cover: None,
+            track_number: row.get(8)?,
+            disc_number: row.get(9)?,
+            replay_gain_track_gain: row.get(10)?,
+            replay_gain_track_peak: row.get(11)?,
+            replay_gain_album_gain: row.get(12)?,
+            replay_gain_album_peak: row.get(13)?,
+            codec: row.get(14)?,
+            bitrate: row.get(15)?,
+            sample_rate: row.get(16)?,
+            channels: row.get(17)?,
+            cuesheet: row.get(19)?,
+            lyrics: None,
+        },
+        thumbnail: row.get(18)?,
+        start: None,
+        end: None,
+    })
+}
+
+impl Library {
+    pub fn open(app: &AppHandle) -> Result<Library, Box<dyn std::error::Error>> {
+        let data_dir = app.path().app_data_dir()?;
+        std::fs::create_dir_all(&data_dir)?;
+        let db_path = data_dir.join(DB_FILE);
+        let db = match open_db(&db_path) {
+            Ok(db) => db,
+            // A damaged database only loses the cache: start a new one
+            Err(_) => {
+                std::fs::remove_file(&db_path)?;
+                open_db(&db_path)?
+            }
+        };
+        Ok(Library(Arc::new(Inner {
+            db: Mutex::new(db),
+            thumbnails: app.path().app_cache_dir()?.join(thumbnails::CACHE_DIR),
+            roots: Mutex::new(Vec::new()),
+            watcher: Mutex::new(None),
+            scan: AtomicU64::new(0),
+            scanning: AtomicBool::new(false),
+        })))
+    }
+
+    /// Index and watch these folders (canonical paths, as `MusicFolders`
+    /// keeps them) instead of the previous ones. Tracks outside them are
+    /// dropped by the scan that follows.
+    pub fn set_roots(&self, app: &AppHandle, roots: Vec<PathBuf>) {
+        *self.0.roots.lock().unwrap() = roots;
+        self.rescan(app, true);
+    }
+
+    /// Scan the folders in the background, replacing a scan still running
+    pub fn rescan(&self, app: &AppHandle, rewatch: bool) {
+        let generation = self.0.scan.fetch_add(1, Ordering::SeqCst) + 1;
+        self.0.scanning.store(true, Ordering::SeqCst);
+        self.notify(app);
+        let library = self.clone();
+        let app = app.clone();
+        std::thread::spawn(move || {
+            // Setting up a recursive watch walks the folders too, so it's
+            // kept off the caller's thread
+            if rewatch {
+                library.watch(&app, generation);
+            }
+            library.scan(&app, generation);
+        });
+    }
+
+    pub fn status(&self) -> LibraryStatus {
+        let db = self.0.db.lock().unwrap();
+        let tracks = db
+            .query_row("SELECT COUNT(*) FROM tracks", [], |row| row.get(0))
+            .unwrap_or(0);
+        LibraryStatus { tracks, scanning: self.0.scanning.load(Ordering::SeqCst) }
+    }
+
+    fn notify(&self, app: &AppHandle) {
+        let _ = app.emit(LIBRARY_EVENT, self.status());
+    }
+
+    fn is_current(&self, generation: u64) -> bool {
+        self.0.scan.load(Ordering::SeqCst) == generation
+    }
+
+    /// A file's tags, from the cache if it hasn't changed since it was
+    /// indexed, otherwise read now (and cached)
+    pub fn track(&self, path: &Path) -> Option<LibraryTrack> {
+        let stamp = file_stamp(path)?;
+        self.cached(path, stamp).or_else(|| self.index(path, stamp))
+    }
+
+    // Re-read a file if it changed; true if the library was updated
+    fn refresh(&self, path: &Path) -> bool {
+        match file_stamp(path) {
+            Some(stamp) if self.cached(path, stamp).is_none() => self.index(path, stamp).is_some(),
+            _ => false,
+        }
+    }
+
+    fn cached(&self, path: &Path, (size, mtime): (i64, i64)) -> Option<LibraryTrack> {
+        let db = self.0.db.lock().unwrap();
+        db.query_row(
+            &format!("SELECT {} FROM tracks WHERE path = ?1 AND size = ?2 AND mtime = ?3", TRACK_COLUMNS),
+            params![path.to_string_lossy(), size, mtime],
+            track_from_row,
+        )
+        .optional()
+        .ok()
+        .flatten()
+    }
+
+    fn index(&self, path: &Path, (size, mtime): (i64, i64)) -> Option<LibraryTrack> {
+        // Tags and pictures are read before taking the lock, which is only
+        // needed for the write
+        let (mut metadata, picture) = read_tags(path)?;
+        // Lyrics are read from the file when they're shown
+        metadata.lyrics = None;
+        // A sheet next to the file is kept with it, so the file can be
+        // split up without going back to the folder
+        if metadata.cuesheet.is_none() {
+            metadata.cuesheet = cue::sidecar_sheet(path);
+        }
+        let thumbnail = match picture {
+            Some(picture) => thumbnails::store(&self.0.thumbnails, picture.data()),
+            None => path
+                .parent()
+                .and_then(thumbnails::folder_cover)
+                .and_then(|cover| std::fs::read(cover).ok())
+                .and_then(|data| thumbnails::store(&self.0.thumbnails, &data)),
+        }
+        .map(|p| p.to_string_lossy().into_owned());
+        let track = LibraryTrack {
+            path: path.to_string_lossy().into_owned(),
+            metadata,
+            thumbnail,
+            start: None,
+            end: None,
+        };
+
+        let m = &track.metadata;
+        let db = self.0.db.lock().unwrap();
+        db.execute(
+            &format!(
+                "INSERT OR REPLACE INTO tracks (size, mtime, {}) VALUES \
+                 (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?14, ?15, ?16, ?17, ?18, ?19, ?20, ?21, ?22)",
+                TRACK_COLUMNS
+            ),
+            params![
+                size,
+                mtime,
+                track.path,
+                m.title,
+                m.artist,
+                m.album,
+                m.album_artist,
+                m.year,
+                m.genre,
+                m.duration,
+                m.track_number,
+                m.disc_number,
+                m.replay_gain_track_gain,
+                m.replay_gain_track_peak,
+                m.replay_gain_album_gain,
+                m.replay_gain_album_peak,
+                m.codec,
+                m.bitrate,
+                m.sample_rate,
+                m.channels,
+                track.thumbnail,
+                m.cuesheet
+            ],
+        )
+        .ok()?;
+        Some(track)
+    }
+
+    // Re-read the files directly in a folder, changed or not
+    fn reindex_folder(&self, dir: &Path) -> bool {
+        let Ok(entries) = std::fs::read_dir(dir) else {
+            return false;
+        };
+        let mut changed = false;
+        for path in entries.flatten().map(|e| e.path()) {
+            if has_audio_extension(&path) {
+                if let Some(stamp) = file_stamp(&path) {
+                    changed |= self.index(&path, stamp).is_some();
+                }
+            }
+        }
+        changed
+    }
+
+    // Remove a file, or everything under a folder, once it's gone from disk.
+    // Returns how many tracks were removed.
+    fn forget_under(&self, path: &Path) -> usize {
+        let path = path.to_string_lossy();
+        let prefix = format!("{}{}", path.trim_end_matches(MAIN_SEPARATOR), MAIN_SEPARATOR);
+        let db = self.0.db.lock().unwrap();
+        db.execute(
+            "DELETE FROM tracks WHERE path = ?1 OR substr(path, 1, length(?2)) = ?2",
+            params![path, prefix],
+        )
+        .unwrap_or(0)
+    }
+
+    fn scan(&self, app: &AppHandle, generation: u64) {
+        let roots = self.0.roots.lock().unwrap().clone();
+        let known: HashMap<String, (i64, i64)> = {
+            let db = self.0.db.lock().unwrap();
+            let stamps = db.prepare("SELECT path, size, mtime FROM tracks").and_then(|mut stmt| {
+                let rows = stmt
+                    .query_map([], |row| Ok((row.get(0)?, (row.get(1)?, row.get(2)?))))?
+                    .collect::<rusqlite::Result<HashMap<_, _>>>();
+                rows
+            });
+            stamps.unwrap_or_default()
+        };
+
+        let mut groups = Vec::new();
+        for root in &roots {
+            collect_folder(root, &mut groups);
+        }
+
+        let mut seen = HashSet::new();
+        let mut indexed = 0;
+        for group in groups {
+            // Files of a group share a folder
+            let sheets = group.first().and_then(|f| f.parent()).map(sheets_modified).unwrap_or(0);
+            for file in group {
+                if !self.is_current(generation) {
+                    return;
+                }
+                let Some(stamp) = stamp_with(&file, sheets) else {
+                    continue;
+                };
+                let key = file.to_string_lossy().into_owned();
+                if known.get(&key) != Some(&stamp) && self.index(&file, stamp).is_some() {
+                    indexed += 1;
+                    if indexed % STATUS_INTERVAL == 0 {
+                        self.notify(app);
+                    }
+                }
+                seen.insert(key);
+            }
+        }
+
+        // Whatever wasn't found is gone, or in a folder no longer included
+        {
+            let mut db = self.0.db.lock().unwrap();
+            if let Ok(tx) = db.transaction() {
+                for path in known.keys().filter(|p| !seen.contains(*p)) {
+                    let _ = tx.execute("DELETE FROM tracks WHERE path = ?1", params![path]);
+                }
+                let _ = tx.commit();
+            }
+        }
+
+        if self.is_current(generation) {
+            self.0.scanning.store(false, Ordering::SeqCst);
+            self.notify(app);
+        }
+    }
+
+    fn watch(&self, app: &AppHandle, generation: u64) {
+        // Stop watching the old folders first
+        *self.0.watcher.lock().unwrap() = None;
+
+        let inner = Arc::downgrade(&self.0);
+        let handle = app.clone();
+        let debouncer = new_debouncer(WATCH_DELAY, move |result: DebounceEventResult| {
+            if let (Some(inner), Ok(events)) = (inner.upgrade(), result) {
+                Library(inner).apply_changes(&handle, events.into_iter().map(|e| e.path).collect());
+            }
+        });
+        let Ok(mut debouncer) = debouncer else {
+            return;
+        };
+        let roots = self.0.roots.lock().unwrap().clone();
+        for root in &roots {
+            // A folder that doesn't exist (an unplugged drive) just isn't watched
+            let _ = debouncer.watcher().watch(root, RecursiveMode::Recursive);
+        }
+        if self.is_current(generation) {
+            *self.0.watcher.lock().unwrap() = Some(debouncer);
+        }
+    }
+
+    // Bring the library up to date with paths the watcher saw change. A
+    // rename arrives as the old path (now missing) and the new one.
+    fn apply_changes(&self, app: &AppHandle, paths: Vec<PathBuf>) {
+        let roots = self.0.roots.lock().unwrap().clone();
+        let mut changed = false;
+        for path in paths {
+            if is_hidden(&path) || !roots.iter().any(|root| path.starts_with(root)) {
+                continue;
+            }
+            if path.is_dir() {
+                // A folder copied or moved in
+                let mut groups = Vec::new();
+                collect_folder(&path, &mut groups);
+                for file in groups.into_iter().flatten() {
+                    changed |= self.refresh(&file);
+                }
+            } else if thumbnails::is_cover_file(&path) || cue::is_cue_file(&path) {
+                // A cover or sheet added, replaced or removed: the folder's
+                // files pick it up (or go back to their embedded pictures,
+                // or to being whole files)
+                if let Some(dir) = path.parent() {
+                    changed |= self.reindex_folder(dir);
+                }
+            } else if path.is_file() {
+                if has_audio_extension(&path) {
+                    changed |= self.refresh(&path);
+                }
+            } else {
+                changed |= self.forget_under(&path) > 0;
+            }
+        }
+        if changed {
+            self.notify(app);
+        }
+    }
+
+    // Counts come from the files' rows, and from the tracks of files split
+    // by a CUE sheet, which can belong to another album and artist entirely
+    fn artists(&self) -> rusqlite::Result<Vec<ArtistSummary>> {
+        let db = self.0.db.lock().unwrap();
+        let mut stmt = db.prepare(&format!(
+            "SELECT {artist} AS name, {album} AS title, COUNT(*) FROM tracks
+             WHERE cuesheet IS NULL GROUP BY name, title",
+            artist = ARTIST_KEY,
+            album = ALBUM_KEY
+        ))?;
+        // Albums and track count by artist
+        let mut groups: HashMap<String, (HashSet<String>, u32)> = HashMap::new();
+        let rows = stmt.query_map([], |row| Ok((row.get::<_, String>(0)?, row.get::<_, String>(1)?, row.get::<_, u32>(2)?)))?;
+        for row in rows {
+            let (name, title, tracks) = row?;
+            let group = groups.entry(name).or_default();
+            group.0.insert(title);
+            group.1 += tracks;
+        }
+        for track in sheet_tracks(&db)? {
+            let group = groups.entry(artist_key(&track.metadata)).or_default();
+            group.0.insert(album_key(&track.metadata));
+            group.1 += 1;
+        }
+        let mut artists: Vec<ArtistSummary> = groups
+            .into_iter()
+            .map(|(name, (albums, tracks))| ArtistSummary { name, albums: albums.len() as u32, tracks })
+            .collect();
+        artists.sort_by_cached_key(|a| a.name.to_lowercase());
+        Ok(artists)
+    }
+
+    fn albums(&self, artist: Option<&str>) -> rusqlite::Result<Vec<AlbumSummary>> {
+        let db = self.0.db.lock().unwrap();
+        let mut stmt = db.prepare(&format!(
+            "SELECT {album} AS title, {artist} AS name, MAX(year), COUNT(*), COALESCE(SUM(duration), 0),
+                    MAX(thumbnail)
+             FROM tracks WHERE cuesheet IS NULL AND (?1 IS NULL OR {artist} = ?1)
+             GROUP BY name, title",
+            artist = ARTIST_KEY,
+            album = ALBUM_KEY
+        ))?;
+        let mut albums: HashMap<(String, String), AlbumSummary> = HashMap::new();
+        let rows = stmt.query_map(params![artist], |row| {
+            Ok(AlbumSummary {
+                title: row.get(0)?,
+                artist: row.get(1)?,
+                year: row.get(2)?,
+                tracks: row.get(3)?,
+                duration: row.get(4)?,
+                thumbnail: row.get(5)?,
+            })
+        })?;
+        for row in rows {
+            let album = row?;
+            albums.insert((album.artist.clone(), album.title.clone()), album);
+        }
+        for track in sheet_tracks(&db)? {
+            let name = artist_key(&track.metadata);
+            if artist.is_some_and(|a| a != name) {
+                continue;
+            }
+            let title = album_key(&track.metadata);
+            let album = albums.entry((name.clone(), title.clone())).or_insert_with(|| AlbumSummary {
+                title,
+                artist: name,
+                year: None,
+                tracks: 0,
+                duration: 0,
+                thumbnail: None,
+            });
+            album.year = album.year.max(track.metadata.year);
+            album.tracks += 1;
+            album.duration += track.metadata.duration.unwrap_or(0);
+            album.thumbnail = album.thumbnail.take().max(track.thumbnail);
+        }
+        let mut albums: Vec<AlbumSummary> = albums.into_values().collect();
+        albums.sort_by_cached_key(|a| (a.artist.to_lowercase(), a.title.to_lowercase()));
+        Ok(albums)
+    }
+
+    // Tracks of an artist and/or album, in album order. Files with a CUE
+    // sheet come back as the sheet's tracks.
+    fn tracks(&self, artist: Option<&str>, album: Option<&str>) -> rusqlite::Result<Vec<LibraryTrack>> {
+        let db = self.0.db.lock().unwrap();
+        let mut stmt = db.prepare(&format!(
+            "SELECT {columns} FROM tracks
+             WHERE cuesheet IS NULL AND (?1 IS NULL OR {artist} = ?1) AND (?2 IS NULL OR {album} = ?2)",
+            columns = TRACK_COLUMNS,
+            artist = ARTIST_KEY,
+            album = ALBUM_KEY
+        ))?;
+        let mut tracks = stmt
+            .query_map(params![artist, album], track_from_row)?
+            .collect::<rusqlite::Result<Vec<_>>>()?;
+        tracks.extend(sheet_tracks(&db)?.into_iter().filter(|t| {
+            artist.map_or(true, |a| a == artist_key(&t.metadata)) && album.map_or(true, |a| a == album_key(&t.metadata))
+        }));
+        tracks.sort_by_cached_key(|t| {
+            (
+                artist_key(&t.metadata).to_lowercase(),
+                album_key(&t.metadata).to_lowercase(),
+                t.metadata.disc_number.unwrap_or(1),
+                t.metadata.track_number.unwrap_or(u32::MAX),
+                t.path.clone(),
+            )
+        });
+        Ok(tracks)
+    }
+}
+
+#[tauri::command]
+pub fn library_status(library: State<'_, Library>) -> LibraryStatus {
+    library.status()
+}
+
+#[tauri::command]
+pub fn rescan_library(app: AppHandle, library: State<'_, Library>) {
+    library.rescan(&app, false);
+}
+
+#[tauri::command]
+pub async fn library_artists(library: State<'_, Library>) -> Result<Vec<ArtistSummary>, String> {
+    library.artists().map_err(|e| e.to_string())
+}
+
+#[tauri::command]
+pub async fn library_albums(
+    artist: Option<String>,
+    library: State<'_, Library>,
+) -> Result<Vec<AlbumSummary>, String> {
+    library.albums(artist.as_deref()).map_err(|e| e.to_string())
+}
+
+#[tauri::command]
+pub async fn library_tracks(
+    artist: Option<String>,
+    album: Option<String>,
+    library: State<'_, Library>,
+) -> Result<Vec<LibraryTrack>, String> {
+    library.tracks(artist.as_deref(), album.as_deref()).map_err(|e| e.to_string())
+}
+
+/// One file's entry, indexing it first if needed. With `start`, the track
+/// of the file's CUE sheet that starts there.
+#[tauri::command]
+pub async fn library_track(
+    path: String,
+    start: Option<f64>,
+    library: State<'_, Library>,
+    folders: State<'_, MusicFolders>,
+) -> Result<LibraryTrack, String> {
+    let path = Path::new(&path);
+    if !folders.contains(path) {
+        return Err(OUTSIDE_MESSAGE.into());
+    }
+    let track = library.track(path).ok_or("Not a supported audio file")?;
+    let Some(start) = start else {
+        return Ok(track);
+    };
+    cue::expand(track)
+        .into_iter()
+        .find(|t| t.start.map(|s| (s - start).abs() < 0.001).unwrap_or(false))
+        .ok_or_else(|| "That track is no longer in the file's CUE sheet".into())
+}
@@ -0,0 +1,78 @@
+use crate::cue::read_text;
+use crate::metadata::read_tags;
+use crate::music_folders::MusicFolders;
+use lofty::config::ParseOptions;
+use lofty::file::AudioFile;
+use lofty::id3::v2::{Frame, FrameFlags, FrameId, SynchronizedTextFrame, TimestampFormat};
+use lofty::mpeg::MpegFile;
+use std::borrow::Cow;
+use std::path::{Path, PathBuf};
+use tauri::State;
+
+// "02:15.40", the time format of LRC lines
+fn lrc_time(ms: u32) -> String {
+    format!("{:02}:{:02}.{:02}", ms / 60_000, (ms / 1000) % 60, (ms % 1000) / 10)
+}
+
+/// Synced lyrics from an MP3's SYLT frame, as LRC text. Entries are often
+/// single words or syllables; a new line starts where the text has one.
+pub fn synced_tag(path: &Path) -> Option<String> {
+    if !path.extension().map(|e| e.eq_ignore_ascii_case("mp3")).unwrap_or(false) {
+        return None;
+    }
+    let mut file = std::fs::File::open(path).ok()?;
+    let mpeg = MpegFile::read_from(&mut file, ParseOptions::new()).ok()?;
+    let Frame::Binary(frame) = mpeg.id3v2()?.get(&FrameId::Valid(Cow::Borrowed("SYLT")))? else {
+        return None;
+    };
+    let sylt = SynchronizedTextFrame::parse(&frame.data, FrameFlags::default()).ok()?;
+    // Timestamps in MPEG frames would need the file's frame rate
+    if sylt.timestamp_format != TimestampFormat::MS {
+        return None;
+    }
+
+    let mut lines: Vec<(u32, String)> = Vec::new();
+    for (ms, text) in sylt.content {
+        match lines.last_mut() {
+            Some((_, line)) if !text.starts_with(['\n', '\r']) => line.push_str(&text),
+            _ => lines.push((ms, text.trim_start_matches(['\n', '\r']).to_string())),
+        }
+    }
+    let lrc: Vec<String> = lines
+        .into_iter()
+        .map(|(ms, text)| format!("[{}]{}", lrc_time(ms), text.trim_end()))
+        .collect();
+    (!lrc.is_empty()).then(|| lrc.join("\n"))
+}
+
+/// An .lrc next to the audio file with the same name, in any case
+fn sidecar(path: &Path) -> Option<PathBuf> {
+    let exact = path.with_extension("lrc");
+    if exact.is_file() {
+        return Some(exact);
+    }
+    let stem = path.file_stem()?.to_string_lossy().to_lowercase();
+    std::fs::read_dir(path.parent()?)
+        .ok()?
+        .flatten()
+        .map(|e| e.path())
+        .find(|p| {
+            p.extension().map(|e| e.eq_ignore_ascii_case("lrc")).unwrap_or(false)
+                && p.file_stem().map(|s| s.to_string_lossy().to_lowercase() == stem).unwrap_or(false)
+        })
+}
+
+/// A file's lyrics: a sidecar .lrc if there is one, otherwise the tags.
+/// Synced lyrics come back as LRC text, unsynced ones as they are.
+#[tauri::command]
+pub fn get_lyrics(path: String, folders: State<'_, MusicFolders>) -> Option<String> {
+    let path = Path::new(&path);
+    if !folders.contains(path) {
+        return None;
+    }
+    if let Some(text) = sidecar(path).and_then(|lrc| read_text(&lrc)) {
+        return Some(text);
+    }
+    let (metadata, _) = read_tags(path)?;
+    synced_tag(path).or(metadata.lyrics).filter(|text| !text.trim().is_empty())
+}
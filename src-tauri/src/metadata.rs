@@ -0,0 +1,161 @@
+use base64::prelude::*;
+use lofty::prelude::*;
+use lofty::file::FileType;
+use lofty::picture::{Picture, PictureType};
+use lofty::probe::Probe;
+use std::path::Path;
+
+#[derive(Clone, Default, serde::Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct AudioMetadata {
+    pub title: Option<String>,
+    pub artist: Option<String>,
+    pub album: Option<String>,
+    pub album_artist: Option<String>,
+    pub year: Option<u32>,
+    pub genre: Option<String>,
+    pub duration: Option<u64>,
+    pub cover: Option<String>,
+    pub track_number: Option<u32>,
+    pub disc_number: Option<u32>,
+    pub replay_gain_track_gain: Option<f32>,
+    pub replay_gain_track_peak: Option<f32>,
+    pub replay_gain_album_gain: Option<f32>,
+    pub replay_gain_album_peak: Option<f32>,
+    pub codec: Option<String>,
+    // kbps
+    pub bitrate: Option<u32>,
+    // Hz
+    pub sample_rate: Option<u32>,
+    pub channels: Option<u8>,
+    // CUE sheet splitting the file: embedded (CUESHEET tag), or a .cue next
+    // to it that the library found when indexing the file
+    #[serde(skip)]
+    pub cuesheet: Option<String>,
+    // USLT, LYRICS or ©lyr tag; `read_metadata` prefers synced SYLT lyrics,
+    // converted to LRC. Not kept in the library.
+    pub lyrics: Option<String>,
+}
+
+fn codec_name(file_type: FileType) -> String {
+    match file_type {
+        FileType::Mpeg => "MP3".into(),
+        FileType::Flac => "FLAC".into(),
+        FileType::Mp4 => "MPEG-4 Audio".into(),
+        FileType::Aac => "AAC".into(),
+        FileType::Opus => "Opus".into(),
+        FileType::Vorbis => "Ogg Vorbis".into(),
+        FileType::Wav => "WAV".into(),
+        FileType::Aiff => "AIFF".into(),
+        other => format!("{:?}", other),
+    }
+}
+
+// ReplayGain values are stored as text, e.g. "-7.89 dB" for gains and
+// "0.988831" for peaks
+fn parse_replay_gain(value: &str) -> Option<f32> {
+    let trimmed = value.trim();
+    let number = trimmed
+        .strip_suffix("dB")
+        .or_else(|| trimmed.strip_suffix("db"))
+        .or_else(|| trimmed.strip_suffix("DB"))
+        .unwrap_or(trimmed)
+        .trim();
+    number.parse::<f32>().ok().filter(|v| v.is_finite())
+}
+
+fn replay_gain_value(tag: Option<&lofty::tag::Tag>, key: ItemKey) -> Option<f32> {
+    tag.and_then(|t| t.get_string(&key)).and_then(parse_replay_gain)
+}
+
+pub fn has_audio_extension(path: &Path) -> bool {
+    if let Some(ext) = path.extension() {
+        let ext_lower = ext.to_string_lossy().to_lowercase();
+        matches!(
+            ext_lower.as_str(),
+            "mp3" | "m4a" | "flac" | "wav" | "ogg" | "opus" | "aac" | "wma"
+        )
+    } else {
+        false
+    }
+}
+
+// Validate that the path is safe and allowed
+pub fn is_valid_audio_path(path: &Path) -> bool {
+    // Check if path exists
+    if !path.exists() {
+        return false;
+    }
+
+    // Check if it's a file (not a directory)
+    if !path.is_file() {
+        return false;
+    }
+
+    // Validate file extension
+    has_audio_extension(path)
+}
+
+/// Tags and audio properties, and the embedded cover picture's bytes. The
+/// metadata's `cover` is left empty for the caller to fill in.
+pub fn read_tags(path: &Path) -> Option<(AudioMetadata, Option<Picture>)> {
+    // Validate path before processing
+    if !is_valid_audio_path(path) {
+        return None;
+    }
+
+    let tagged_file = Probe::open(path).ok().and_then(|probe| probe.read().ok())?;
+
+    let tag = tagged_file
+        .primary_tag()
+        .or_else(|| tagged_file.first_tag());
+    let properties = tagged_file.properties();
+    // The front cover if there is one, so a replaced cover shows even when
+    // other pictures come before it
+    let picture = tag.and_then(|t| {
+        t.pictures()
+            .iter()
+            .find(|p| p.pic_type() == PictureType::CoverFront)
+            .or_else(|| t.pictures().first())
+            .cloned()
+    });
+
+    let metadata = AudioMetadata {
+        title: tag.and_then(|t| t.title().map(|s| s.into_owned())),
+        artist: tag.and_then(|t| t.artist().map(|s| s.into_owned())),
+        album: tag.and_then(|t| t.album().map(|s| s.into_owned())),
+        album_artist: tag.and_then(|t| t.get_string(&ItemKey::AlbumArtist).map(String::from)),
+        year: tag.and_then(|t| t.year()),
+        genre: tag.and_then(|t| t.genre().map(|s| s.into_owned())),
+        duration: Some(properties.duration().as_secs()),
+        cover: None,
+        track_number: tag.and_then(|t| t.track()),
+        disc_number: tag.and_then(|t| t.disk()),
+        replay_gain_track_gain: replay_gain_value(tag, ItemKey::ReplayGainTrackGain),
+        replay_gain_track_peak: replay_gain_value(tag, ItemKey::ReplayGainTrackPeak),
+        replay_gain_album_gain: replay_gain_value(tag, ItemKey::ReplayGainAlbumGain),
+        replay_gain_album_peak: replay_gain_value(tag, ItemKey::ReplayGainAlbumPeak),
+        codec: Some(codec_name(tagged_file.file_type())),
+        bitrate: properties.audio_bitrate(),
+        sample_rate: properties.sample_rate(),
+        channels: properties.channels(),
+        cuesheet: tag.and_then(|t| t.get_string(&ItemKey::Unknown("CUESHEET".into())).map(String::from)),
+        lyrics: tag.and_then(|t| t.get_string(&ItemKey::Lyrics).map(String::from)),
+    };
+    Some((metadata, picture))
+}
+
+/// Metadata with the full-size cover inlined as a data URL
+pub fn read_metadata(path: &Path) -> Option<AudioMetadata> {
+    let (mut metadata, picture) = read_tags(path)?;
+    metadata.lyrics = crate::lyrics::synced_tag(path).or(metadata.lyrics.take());
+    if let Some(picture) = picture {
+        let b64 = BASE64_STANDARD.encode(picture.data());
+        let mime = picture
+            .mime_type()
+            .map(|m| m.as_str())
+            .unwrap_or("image/jpeg");
+        metadata.cover = Some(format!("data:{};base64,{}", mime, b64));
+    }
+    Some(metadata)
+}
@@ -0,0 +1,80 @@
+use crate::library::Library;
+use crate::metadata::has_audio_extension;
+use std::path::{Path, PathBuf};
+use std::sync::{Arc, RwLock};
+use tauri::{AppHandle, Manager, State};
+
+pub const OUTSIDE_MESSAGE: &str =
+    "This file is outside your music folders. Add its folder in Settings to play it.";
+
+/// Folders the app may read audio from and write tags to. Set by the
+/// frontend from the saved settings at startup and whenever the user changes
+/// them; everything that touches audio files checks against it.
+#[derive(Clone, Default)]
+pub struct MusicFolders(Arc<RwLock<Vec<PathBuf>>>);
+
+impl MusicFolders {
+    /// Whether a file lies inside one of the folders. Both sides are
+    /// compared canonicalized: `..` components, symlinks and different
+    /// spellings of a path (e.g. /Volumes/... vs. a mount alias) can't be
+    /// used to reach outside, and files that don't exist are never inside.
+    pub fn contains(&self, path: &Path) -> bool {
+        let Ok(canonical) = std::fs::canonicalize(path) else {
+            return false;
+        };
+        let roots = self.0.read().unwrap();
+        roots.iter().any(|root| canonical.starts_with(root))
+    }
+
+    // Folders that don't exist (yet) can't hold anything and are left out.
+    // Returns the folders as stored, canonicalized.
+    fn set(&self, folders: &[String]) -> Vec<PathBuf> {
+        let roots: Vec<PathBuf> = folders
+            .iter()
+            .filter_map(|folder| std::fs::canonicalize(folder).ok())
+            .collect();
+        *self.0.write().unwrap() = roots.clone();
+        roots
+    }
+}
+
+/// Also re-indexes the library for the new folders. The library gets the
+/// canonical paths too, so the watcher's events (which report real paths,
+/// e.g. /private/var for /var on macOS) fall inside its roots.
+#[tauri::command]
+pub fn set_music_folders(
+    app: AppHandle,
+    folders: Vec<String>,
+    state: State<'_, MusicFolders>,
+    library: State<'_, Library>,
+) {
+    let roots = state.set(&folders);
+    library.set_roots(&app, roots);
+}
+
+/// What the app could read before music folders were configurable
+#[tauri::command]
+pub fn default_music_folders(app: AppHandle) -> Vec<String> {
+    let paths = app.path();
+    [paths.audio_dir(), paths.download_dir(), paths.document_dir(), paths.desktop_dir()]
+        .into_iter()
+        .flatten()
+        .map(|p| p.to_string_lossy().into_owned())
+        .collect()
+}
+
+/// Why a file can't be played, if it can't
+#[tauri::command]
+pub fn check_playable(path: String, state: State<'_, MusicFolders>) -> Result<(), String> {
+    let path = Path::new(&path);
+    if !path.is_file() {
+        return Err("File not found".into());
+    }
+    if !has_audio_extension(path) {
+        return Err("Invalid audio file type".into());
+    }
+    if !state.contains(path) {
+        return Err(OUTSIDE_MESSAGE.into());
+    }
+    Ok(())
+}
@@ -0,0 +1,36 @@
+use std::path::Path;
+
+fn is_playlist_path(path: &Path) -> bool {
+    path.extension()
+        .map(|ext| {
+            matches!(
+                ext.to_string_lossy().to_lowercase().as_str(),
+                "m3u" | "m3u8" | "pls"
+            )
+        })
+        .unwrap_or(false)
+}
+
+/// Read an M3U/M3U8/PLS file. Plain .m3u files are often Latin-1 rather
+/// than UTF-8, so fall back to that instead of failing.
+#[tauri::command]
+pub fn read_playlist(path: String) -> Result<String, String> {
+    let path = Path::new(&path);
+    if !is_playlist_path(path) {
+        return Err("Not a playlist file".into());
+    }
+    let bytes = std::fs::read(path).map_err(|e| e.to_string())?;
+    match String::from_utf8(bytes) {
+        Ok(text) => Ok(text),
+        Err(e) => Ok(e.into_bytes().iter().map(|&b| b as char).collect()),
+    }
+}
+
+#[tauri::command]
+pub fn write_playlist(path: String, contents: String) -> Result<(), String> {
+    let path = Path::new(&path);
+    if !is_playlist_path(path) {
+        return Err("Not a playlist file".into());
+    }
+    std::fs::write(path, contents).map_err(|e| e.to_string())
+}
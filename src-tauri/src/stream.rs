@@ -0,0 +1,125 @@
+use crate::metadata::is_valid_audio_path;
+use crate::music_folders::{MusicFolders, OUTSIDE_MESSAGE};
+use percent_encoding::percent_decode_str;
+use std::fs::File;
+use std::io::{Read, Seek, SeekFrom};
+use std::path::{Path, PathBuf};
+use tauri::http::{header, Request, Response, StatusCode};
+
+/// URI scheme audio is streamed through, e.g. `stream://localhost/<encoded path>`
+/// (`http://stream.localhost/...` on Windows). The frontend builds these
+/// URLs with `convertFileSrc(path, "stream")`.
+pub const SCHEME: &str = "stream";
+
+// Upper bound for a single response. The media element asks for the rest
+// with follow-up range requests, so memory use doesn't grow with file size.
+const MAX_CHUNK: u64 = 2 * 1024 * 1024;
+
+fn mime_type(path: &Path) -> &'static str {
+    let ext = path
+        .extension()
+        .map(|e| e.to_string_lossy().to_lowercase())
+        .unwrap_or_default();
+    match ext.as_str() {
+        "mp3" => "audio/mpeg",
+        "m4a" => "audio/mp4",
+        "flac" => "audio/flac",
+        "wav" => "audio/wav",
+        "ogg" => "audio/ogg",
+        "opus" => "audio/opus",
+        "aac" => "audio/aac",
+        "wma" => "audio/x-ms-wma",
+        _ => "application/octet-stream",
+    }
+}
+
+/// First range of a `Range: bytes=...` header as inclusive offsets, or None
+/// if it can't be satisfied. Players only ever ask for a single range.
+fn parse_range(value: &str, len: u64) -> Option<(u64, u64)> {
+    let spec = value.trim().strip_prefix("bytes=")?.split(',').next()?.trim();
+    let (start, end) = spec.split_once('-')?;
+    let (start, end) = if start.is_empty() {
+        // Suffix range: the last N bytes
+        let suffix: u64 = end.parse().ok()?;
+        (len.saturating_sub(suffix), len.checked_sub(1)?)
+    } else {
+        let start: u64 = start.parse().ok()?;
+        let end = if end.is_empty() {
+            len.checked_sub(1)?
+        } else {
+            end.parse::<u64>().ok()?.min(len.checked_sub(1)?)
+        };
+        (start, end)
+    };
+    (start <= end && start < len).then_some((start, end))
+}
+
+fn error(status: StatusCode, message: &str) -> Response<Vec<u8>> {
+    Response::builder()
+        .status(status)
+        .header(header::ACCESS_CONTROL_ALLOW_ORIGIN, "*")
+        .body(message.as_bytes().to_vec())
+        .unwrap()
+}
+
+fn serve(request: &Request<Vec<u8>>, folders: &MusicFolders) -> Result<Response<Vec<u8>>, Response<Vec<u8>>> {
+    let encoded = request.uri().path().trim_start_matches('/');
+    let path = PathBuf::from(percent_decode_str(encoded).decode_utf8_lossy().into_owned());
+    if !is_valid_audio_path(&path) {
+        return Err(error(StatusCode::NOT_FOUND, "Not a playable audio file"));
+    }
+    if !folders.contains(&path) {
+        return Err(error(StatusCode::FORBIDDEN, OUTSIDE_MESSAGE));
+    }
+
+    let mut file = File::open(&path).map_err(|e| error(StatusCode::FORBIDDEN, &e.to_string()))?;
+    let len = file
+        .metadata()
+        .map_err(|e| error(StatusCode::INTERNAL_SERVER_ERROR, &e.to_string()))?
+        .len();
+    if len == 0 {
+        return Err(error(StatusCode::NOT_FOUND, "Empty file"));
+    }
+
+    // Without a Range header, answer as if the whole file was asked for; the
+    // response is still partial so the client knows to request the rest
+    let (start, end) = match request.headers().get(header::RANGE).and_then(|v| v.to_str().ok()) {
+        Some(range) => parse_range(range, len).ok_or_else(|| {
+            let mut response = error(StatusCode::RANGE_NOT_SATISFIABLE, "Invalid range");
+            response.headers_mut().insert(
+                header::CONTENT_RANGE,
+                format!("bytes */{}", len).parse().unwrap(),
+            );
+            response
+        })?,
+        None => (0, len - 1),
+    };
+    let end = end.min(start + MAX_CHUNK - 1);
+
+    let mut body = Vec::with_capacity((end - start + 1) as usize);
+    file.seek(SeekFrom::Start(start))
+        .and_then(|_| file.take(end - start + 1).read_to_end(&mut body))
+        .map_err(|e| error(StatusCode::INTERNAL_SERVER_ERROR, &e.to_string()))?;
+    // The file may have shrunk since we looked at its length
+    if body.is_empty() {
+        return Err(error(StatusCode::RANGE_NOT_SATISFIABLE, "Invalid range"));
+    }
+    let end = start + body.len() as u64 - 1;
+
+    Ok(Response::builder()
+        .status(StatusCode::PARTIAL_CONTENT)
+        .header(header::CONTENT_TYPE, mime_type(&path))
+        .header(header::ACCEPT_RANGES, "bytes")
+        .header(header::CONTENT_LENGTH, body.len())
+        .header(header::CONTENT_RANGE, format!("bytes {}-{}/{}", start, end, len))
+        // The page's origin differs from the scheme's; Web Audio only gets
+        // at the samples of cross-origin media when CORS allows it
+        .header(header::ACCESS_CONTROL_ALLOW_ORIGIN, "*")
+        .body(body)
+        .unwrap())
+}
+
+/// Serve a (range of a) local audio file for the `stream://` protocol
+pub fn handle(request: &Request<Vec<u8>>, folders: &MusicFolders) -> Response<Vec<u8>> {
+    serve(request, folders).unwrap_or_else(|response| response)
+}
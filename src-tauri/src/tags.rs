@@ -0,0 +1,138 @@
+use crate::library::{Library, LibraryTrack};
+use crate::metadata::is_valid_audio_path;
+use crate::music_folders::{MusicFolders, OUTSIDE_MESSAGE};
+use lofty::config::WriteOptions;
+use lofty::picture::{Picture, PictureType};
+use lofty::prelude::*;
+use lofty::probe::Probe;
+use lofty::tag::Tag;
+use std::fs::File;
+use std::path::Path;
+use tauri::State;
+
+/// Tag values from the editor. Every field is written: `None` (or an empty
+/// string) removes the tag.
+#[derive(serde::Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct TagEdit {
+    pub title: Option<String>,
+    pub artist: Option<String>,
+    pub album: Option<String>,
+    pub album_artist: Option<String>,
+    pub track_number: Option<u32>,
+    pub disc_number: Option<u32>,
+    pub year: Option<u32>,
+    pub genre: Option<String>,
+    pub cover: CoverEdit,
+}
+
+#[derive(serde::Deserialize)]
+#[serde(tag = "action", rename_all = "camelCase")]
+pub enum CoverEdit {
+    Keep,
+    Remove,
+    // Image file picked by the user
+    Replace { path: String },
+}
+
+fn non_empty(value: Option<String>) -> Option<String> {
+    value
+        .map(|v| v.trim().to_string())
+        .filter(|v| !v.is_empty())
+}
+
+fn apply_edit(tag: &mut Tag, edit: TagEdit) -> Result<(), String> {
+    match non_empty(edit.title) {
+        Some(v) => tag.set_title(v),
+        None => tag.remove_title(),
+    }
+    match non_empty(edit.artist) {
+        Some(v) => tag.set_artist(v),
+        None => tag.remove_artist(),
+    }
+    match non_empty(edit.album) {
+        Some(v) => tag.set_album(v),
+        None => tag.remove_album(),
+    }
+    match non_empty(edit.album_artist) {
+        Some(v) => {
+            tag.insert_text(ItemKey::AlbumArtist, v);
+        }
+        None => tag.remove_key(&ItemKey::AlbumArtist),
+    }
+    match edit.track_number.filter(|&n| n > 0) {
+        Some(n) => tag.set_track(n),
+        None => tag.remove_track(),
+    }
+    match edit.disc_number.filter(|&n| n > 0) {
+        Some(n) => tag.set_disk(n),
+        None => tag.remove_disk(),
+    }
+    match edit.year.filter(|&y| y > 0) {
+        Some(y) => tag.set_year(y),
+        None => tag.remove_year(),
+    }
+    match non_empty(edit.genre) {
+        Some(v) => tag.set_genre(v),
+        None => tag.remove_genre(),
+    }
+
+    match edit.cover {
+        CoverEdit::Keep => {}
+        CoverEdit::Remove => {
+            while !tag.pictures().is_empty() {
+                tag.remove_picture(0);
+            }
+        }
+        CoverEdit::Replace { path } => {
+            let mut file = File::open(&path).map_err(|e| format!("Can't open image: {}", e))?;
+            let mut picture =
+                Picture::from_reader(&mut file).map_err(|e| format!("Unsupported image: {}", e))?;
+            picture.set_pic_type(PictureType::CoverFront);
+            // The front cover replaces whatever was there; other pictures
+            // (back cover, artist photo...) stay
+            tag.remove_picture_type(PictureType::CoverFront);
+            tag.push_picture(picture);
+        }
+    }
+    Ok(())
+}
+
+/// Write edited tags back to the file and return its library entry as read
+/// afterwards, so the frontend shows exactly what was stored.
+#[tauri::command]
+pub fn write_tags(
+    path: String,
+    tags: TagEdit,
+    folders: State<'_, MusicFolders>,
+    library: State<'_, Library>,
+) -> Result<LibraryTrack, String> {
+    let file_path = Path::new(&path);
+    if !is_valid_audio_path(file_path) {
+        return Err("Not a supported audio file".into());
+    }
+    if !folders.contains(file_path) {
+        return Err(OUTSIDE_MESSAGE.into());
+    }
+
+    let mut tagged_file = Probe::open(file_path)
+        .and_then(|probe| probe.read())
+        .map_err(|e| e.to_string())?;
+
+    // Files without any tag get one of the format's preferred type
+    if tagged_file.primary_tag().is_none() {
+        let tag_type = tagged_file.primary_tag_type();
+        tagged_file.insert_tag(Tag::new(tag_type));
+    }
+    let tag = tagged_file
+        .primary_tag_mut()
+        .ok_or("This format doesn't support tags")?;
+
+    apply_edit(tag, tags)?;
+    tag.save_to_path(file_path, WriteOptions::default())
+        .map_err(|e| e.to_string())?;
+    // Updates the library now rather than when the watcher gets to it
+    library
+        .track(file_path)
+        .ok_or_else(|| "Failed to read tags back".into())
+}
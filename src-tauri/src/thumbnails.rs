@@ -0,0 +1,56 @@
+use std::collections::hash_map::DefaultHasher;
+use std::hash::{Hash, Hasher};
+use std::path::{Path, PathBuf};
+
+// Longest side of a cached cover, in pixels. Big enough for the album art
+// box on a high-DPI display, small enough to list hundreds of albums.
+const THUMBNAIL_SIZE: u32 = 300;
+pub const CACHE_DIR: &str = "thumbnails";
+
+// Cover images commonly saved next to an album's files, in order of preference
+const COVER_FILES: [&str; 6] = ["folder.jpg", "cover.jpg", "front.jpg", "folder.png", "cover.png", "front.png"];
+
+/// Scale a cover picture down and cache it as a JPEG in `dir`. Files are
+/// named after the picture's contents, so the tracks of an album share one.
+pub fn store(dir: &Path, picture: &[u8]) -> Option<PathBuf> {
+    let mut hasher = DefaultHasher::new();
+    picture.hash(&mut hasher);
+    let path = dir.join(format!("{:016x}.jpg", hasher.finish()));
+    if path.is_file() {
+        return Some(path);
+    }
+
+    let image = image::load_from_memory(picture).ok()?;
+    let thumbnail = image.thumbnail(THUMBNAIL_SIZE, THUMBNAIL_SIZE).to_rgb8();
+    std::fs::create_dir_all(dir).ok()?;
+    // Written next to its final name first, so a half-written file is
+    // never picked up by the check above
+    let partial = path.with_extension("partial");
+    thumbnail
+        .save_with_format(&partial, image::ImageFormat::Jpeg)
+        .ok()?;
+    std::fs::rename(&partial, &path).ok()?;
+    Some(path)
+}
+
+pub fn is_cover_file(path: &Path) -> bool {
+    path.file_name()
+        .map(|n| COVER_FILES.contains(&n.to_string_lossy().to_lowercase().as_str()))
+        .unwrap_or(false)
+}
+
+/// The cover image in a folder, for files without an embedded picture.
+/// Names are matched case-insensitively (Folder.jpg, COVER.PNG).
+pub fn folder_cover(dir: &Path) -> Option<PathBuf> {
+    let entries = std::fs::read_dir(dir).ok()?;
+    let mut found: Vec<(usize, PathBuf)> = entries
+        .flatten()
+        .filter_map(|entry| {
+            let name = entry.file_name().to_string_lossy().to_lowercase();
+            let rank = COVER_FILES.iter().position(|c| *c == name)?;
+            Some((rank, entry.path()))
+        })
+        .collect();
+    found.sort();
+    found.into_iter().next().map(|(_, path)| path)
+}
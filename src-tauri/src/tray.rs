@@ -0,0 +1,145 @@
+use std::sync::atomic::{AtomicBool, Ordering};
+use tauri::menu::{CheckMenuItem, Menu, MenuItem, PredefinedMenuItem};
+use tauri::tray::{MouseButton, MouseButtonState, TrayIconBuilder, TrayIconEvent};
+use tauri::{AppHandle, Emitter, Manager, State, Wry};
+
+/// Playback commands from the tray and global shortcuts go to the frontend
+/// as this event, with the command id (as in the keymap) as payload
+pub const COMMAND_EVENT: &str = "player-command";
+/// Sent when "Keep Playing When Window Is Closed" is toggled from the tray
+pub const KEEP_PLAYING_EVENT: &str = "keep-playing-changed";
+
+const TRAY_ID: &str = "main";
+
+// Menu items whose ids are keymap commands are forwarded as they are
+const PLAYBACK_ITEMS: [&str; 3] = ["playPause", "nextTrack", "previousTrack"];
+
+/// Hide the window instead of quitting when it's closed, so playback goes on
+#[derive(Default)]
+pub struct KeepPlaying(pub AtomicBool);
+
+/// Menu items updated as playback changes
+pub struct TrayItems {
+    now_playing: MenuItem<Wry>,
+    play_pause: MenuItem<Wry>,
+    keep_playing: CheckMenuItem<Wry>,
+}
+
+pub fn show_main_window(app: &AppHandle) {
+    if let Some(window) = app.get_webview_window("main") {
+        let _ = window.show();
+        let _ = window.unminimize();
+        let _ = window.set_focus();
+    }
+}
+
+pub fn setup(app: &AppHandle) -> tauri::Result<()> {
+    let now_playing = MenuItem::with_id(app, "now-playing", "Not Playing", false, None::<&str>)?;
+    let play_pause = MenuItem::with_id(app, "playPause", "Play", true, None::<&str>)?;
+    let next = MenuItem::with_id(app, "nextTrack", "Next", true, None::<&str>)?;
+    let previous = MenuItem::with_id(app, "previousTrack", "Previous", true, None::<&str>)?;
+    let keep_playing = CheckMenuItem::with_id(
+        app,
+        "keep-playing",
+        "Keep Playing When Window Is Closed",
+        true,
+        false,
+        None::<&str>,
+    )?;
+    let show = MenuItem::with_id(app, "show", "Show MinPlayer", true, None::<&str>)?;
+    let quit = MenuItem::with_id(app, "quit", "Quit MinPlayer", true, None::<&str>)?;
+    let menu = Menu::with_items(
+        app,
+        &[
+            &now_playing,
+            &PredefinedMenuItem::separator(app)?,
+            &play_pause,
+            &next,
+            &previous,
+            &PredefinedMenuItem::separator(app)?,
+            &keep_playing,
+            &show,
+            &quit,
+        ],
+    )?;
+
+    let mut tray = TrayIconBuilder::with_id(TRAY_ID)
+        .tooltip("MinPlayer")
+        .menu(&menu)
+        .show_menu_on_left_click(true)
+        .on_menu_event(|app, event| {
+            let id = event.id().as_ref();
+            if PLAYBACK_ITEMS.contains(&id) {
+                let _ = app.emit(COMMAND_EVENT, id);
+                return;
+            }
+            match id {
+                "keep-playing" => {
+                    let items = app.state::<TrayItems>();
+                    // The menu has already flipped the check mark
+                    let enabled = items.keep_playing.is_checked().unwrap_or(false);
+                    app.state::<KeepPlaying>().0.store(enabled, Ordering::SeqCst);
+                    let _ = app.emit(KEEP_PLAYING_EVENT, enabled);
+                }
+                "show" => show_main_window(app),
+                "quit" => app.exit(0),
+                _ => {}
+            }
+        })
+        .on_tray_icon_event(|tray, event| {
+            // Double-click brings the window back (the menu takes single clicks)
+            if let TrayIconEvent::DoubleClick { button: MouseButton::Left, .. } = event {
+                show_main_window(tray.app_handle());
+            } else if let TrayIconEvent::Click {
+                button: MouseButton::Middle,
+                button_state: MouseButtonState::Up,
+                ..
+            } = event
+            {
+                let _ = tray.app_handle().emit(COMMAND_EVENT, "playPause");
+            }
+        });
+    if let Some(icon) = app.default_window_icon() {
+        tray = tray.icon(icon.clone());
+    }
+    tray.build(app)?;
+
+    app.manage(TrayItems { now_playing, play_pause, keep_playing });
+    Ok(())
+}
+
+/// Show the current track and play state in the tray menu and tooltip
+#[tauri::command]
+pub fn update_tray(
+    app: AppHandle,
+    title: Option<String>,
+    artist: Option<String>,
+    playing: bool,
+    items: State<'_, TrayItems>,
+) -> Result<(), String> {
+    let label = match (&title, &artist) {
+        (Some(title), Some(artist)) => format!("{} — {}", title, artist),
+        (Some(title), None) => title.clone(),
+        _ => "Not Playing".into(),
+    };
+    items.now_playing.set_text(&label).map_err(|e| e.to_string())?;
+    items
+        .play_pause
+        .set_text(if playing { "Pause" } else { "Play" })
+        .map_err(|e| e.to_string())?;
+    if let Some(tray) = app.tray_by_id(TRAY_ID) {
+        let tooltip = if title.is_some() { format!("MinPlayer: {}", label) } else { "MinPlayer".into() };
+        tray.set_tooltip(Some(tooltip)).map_err(|e| e.to_string())?;
+    }
+    Ok(())
+}
+
+#[tauri::command]
+pub fn set_keep_playing(
+    enabled: bool,
+    keep_playing: State<'_, KeepPlaying>,
+    items: State<'_, TrayItems>,
+) -> Result<(), String> {
+    keep_playing.0.store(enabled, Ordering::SeqCst);
+    items.keep_playing.set_checked(enabled).map_err(|e| e.to_string())
+}
@@ -0,0 +1,179 @@
+use crate::music_folders::{MusicFolders, OUTSIDE_MESSAGE};
+use lofty::file::AudioFile;
+use std::collections::hash_map::DefaultHasher;
+use std::fs::File;
+use std::hash::{Hash, Hasher};
+use std::path::{Path, PathBuf};
+use std::sync::atomic::{AtomicU64, Ordering};
+use std::sync::Arc;
+use std::time::UNIX_EPOCH;
+use symphonia::core::audio::SampleBuffer;
+use symphonia::core::codecs::{DecoderOptions, CODEC_TYPE_NULL};
+use symphonia::core::errors::Error as DecodeError;
+use symphonia::core::formats::FormatOptions;
+use symphonia::core::io::MediaSourceStream;
+use symphonia::core::meta::MetadataOptions;
+use symphonia::core::probe::Hint;
+use tauri::{AppHandle, Manager, State};
+
+// Peaks per file, whatever its length. Enough for a full-width seek bar on
+// a large display; the frontend merges them down to the pixels it has.
+const PEAK_COUNT: usize = 2048;
+// Decoded audio is first reduced to one peak per 10 ms
+const BLOCKS_PER_SECOND: u32 = 100;
+const CACHE_DIR: &str = "waveforms";
+
+/// Only the most recently requested waveform is worth decoding: skipping
+/// through tracks abandons the earlier requests instead of queueing them.
+#[derive(Clone, Default)]
+pub struct WaveformJobs(Arc<AtomicU64>);
+
+// The cache file for a path, named after its modification time and size so
+// a re-encoded or re-tagged file gets a fresh waveform
+fn cache_path(app: &AppHandle, path: &Path) -> Option<PathBuf> {
+    let meta = std::fs::metadata(path).ok()?;
+    let modified = meta.modified().ok()?.duration_since(UNIX_EPOCH).ok()?;
+    let mut hasher = DefaultHasher::new();
+    path.hash(&mut hasher);
+    modified.as_nanos().hash(&mut hasher);
+    meta.len().hash(&mut hasher);
+    let dir = app.path().app_cache_dir().ok()?.join(CACHE_DIR);
+    Some(dir.join(format!("{:016x}.peaks", hasher.finish())))
+}
+
+fn decode_blocks(path: &Path, cancelled: &dyn Fn() -> bool) -> Result<Vec<f32>, String> {
+    let file = File::open(path).map_err(|e| e.to_string())?;
+    let source = MediaSourceStream::new(Box::new(file), Default::default());
+    let mut hint = Hint::new();
+    if let Some(ext) = path.extension().and_then(|e| e.to_str()) {
+        hint.with_extension(ext);
+    }
+    let probed = symphonia::default::get_probe()
+        .format(&hint, source, &FormatOptions::default(), &MetadataOptions::default())
+        .map_err(|e| e.to_string())?;
+    let mut format = probed.format;
+    let track = format
+        .tracks()
+        .iter()
+        .find(|t| t.codec_params.codec != CODEC_TYPE_NULL)
+        .ok_or("No audio track")?;
+    let track_id = track.id;
+    let block_frames = (track.codec_params.sample_rate.unwrap_or(44_100) / BLOCKS_PER_SECOND).max(1) as usize;
+    let mut decoder = symphonia::default::get_codecs()
+        .make(&track.codec_params, &DecoderOptions::default())
+        .map_err(|e| e.to_string())?;
+
+    let mut blocks = Vec::new();
+    let mut peak = 0f32;
+    let mut frames = 0usize;
+    let mut samples: Option<SampleBuffer<f32>> = None;
+    loop {
+        if cancelled() {
+            return Err("Cancelled".into());
+        }
+        let packet = match format.next_packet() {
+            Ok(packet) => packet,
+            Err(DecodeError::IoError(e)) if e.kind() == std::io::ErrorKind::UnexpectedEof => break,
+            Err(e) => return Err(e.to_string()),
+        };
+        if packet.track_id() != track_id {
+            continue;
+        }
+        let decoded = match decoder.decode(&packet) {
+            Ok(decoded) => decoded,
+            // A corrupt frame here and there shouldn't cost the whole waveform
+            Err(DecodeError::DecodeError(_)) => continue,
+            Err(e) => return Err(e.to_string()),
+        };
+
+        let spec = *decoded.spec();
+        let channels = spec.channels.count().max(1);
+        if samples.as_ref().map_or(true, |b| b.capacity() < decoded.capacity() * channels) {
+            samples = Some(SampleBuffer::new(decoded.capacity() as u64, spec));
+        }
+        let buffer = samples.as_mut().unwrap();
+        buffer.copy_interleaved_ref(decoded);
+        for frame in buffer.samples().chunks(channels) {
+            peak = frame.iter().fold(peak, |max, s| max.max(s.abs()));
+            frames += 1;
+            if frames == block_frames {
+                blocks.push(peak);
+                peak = 0.0;
+                frames = 0;
+            }
+        }
+    }
+    if frames > 0 {
+        blocks.push(peak);
+    }
+    Ok(blocks)
+}
+
+// Reduce the 10 ms blocks to PEAK_COUNT peaks, scaled to a byte each
+fn reduce(blocks: &[f32]) -> Vec<u8> {
+    let count = blocks.len().min(PEAK_COUNT);
+    (0..count)
+        .map(|i| {
+            let start = i * blocks.len() / count;
+            let end = ((i + 1) * blocks.len() / count).max(start + 1);
+            let peak = blocks[start..end].iter().fold(0f32, |max, &b| max.max(b));
+            (peak.min(1.0) * 255.0).round() as u8
+        })
+        .collect()
+}
+
+// The peaks between `start` and `end` seconds (a CUE sheet track). Peaks
+// span the whole file evenly, so the file's length places the range.
+fn slice(path: &Path, peaks: Vec<u8>, start: Option<f64>, end: Option<f64>) -> Vec<u8> {
+    if start.is_none() && end.is_none() {
+        return peaks;
+    }
+    let length = lofty::read_from_path(path)
+        .map(|file| file.properties().duration().as_secs_f64())
+        .unwrap_or(0.0);
+    if length <= 0.0 {
+        return peaks;
+    }
+    let index = |time: f64| ((time / length).clamp(0.0, 1.0) * peaks.len() as f64) as usize;
+    let from = index(start.unwrap_or(0.0));
+    let to = end.map(|e| index(e).max(from + 1)).unwrap_or(peaks.len()).min(peaks.len());
+    peaks[from.min(to)..to].to_vec()
+}
+
+/// Peaks of a file's waveform (0-255 of full scale), from the disk cache
+/// when it has been decoded before. With a range, only that part of it.
+#[tauri::command]
+pub async fn get_waveform(
+    path: String,
+    start: Option<f64>,
+    end: Option<f64>,
+    app: AppHandle,
+    folders: State<'_, MusicFolders>,
+    jobs: State<'_, WaveformJobs>,
+) -> Result<Vec<u8>, String> {
+    let file_path = PathBuf::from(&path);
+    if !folders.contains(&file_path) {
+        return Err(OUTSIDE_MESSAGE.into());
+    }
+    let cache = cache_path(&app, &file_path);
+    if let Some(peaks) = cache.as_ref().and_then(|c| std::fs::read(c).ok()) {
+        return Ok(slice(&file_path, peaks, start, end));
+    }
+
+    let jobs = jobs.inner().0.clone();
+    let job = jobs.fetch_add(1, Ordering::SeqCst) + 1;
+    tauri::async_runtime::spawn_blocking(move || {
+        let blocks = decode_blocks(&file_path, &|| jobs.load(Ordering::SeqCst) != job)?;
+        let peaks = reduce(&blocks);
+        if let Some(cache) = cache {
+            // Not being able to cache only costs decoding again next time
+            if let Some(dir) = cache.parent() {
+                let _ = std::fs::create_dir_all(dir);
+            }
+            let _ = std::fs::write(&cache, &peaks);
+        }
+        Ok(slice(&file_path, peaks, start, end))
+    })
+    .await
+    .map_err(|e| e.to_string())?
+}
@@ -0,0 +1,62 @@
+use tauri::{LogicalPosition, LogicalSize, WebviewWindow};
+
+// Window sizes the first time each mode is used, in logical pixels. The
+// full player's matches tauri.conf.json.
+const FULL_SIZE: (f64, f64) = (320.0, 800.0);
+const MINI_SIZE: (f64, f64) = (340.0, 96.0);
+// Smallest mini player that still fits the cover and the transport buttons
+const MINI_MIN_SIZE: (f64, f64) = (240.0, 72.0);
+
+/// Where a window mode was last left, in logical pixels
+#[derive(serde::Deserialize)]
+pub struct WindowBounds {
+    x: f64,
+    y: f64,
+    width: f64,
+    height: f64,
+}
+
+// A monitor that was unplugged since could leave the window out of reach
+fn on_screen(window: &WebviewWindow, bounds: &WindowBounds) -> bool {
+    window
+        .available_monitors()
+        .unwrap_or_default()
+        .iter()
+        .any(|monitor| {
+            let scale = monitor.scale_factor();
+            let position = monitor.position().to_logical::<f64>(scale);
+            let size = monitor.size().to_logical::<f64>(scale);
+            bounds.x >= position.x
+                && bounds.y >= position.y
+                && bounds.x < position.x + size.width
+                && bounds.y < position.y + size.height
+        })
+}
+
+/// Switch the main window between the full player and the compact,
+/// always-on-top mini player, restoring the mode's own size and position.
+/// Only the window changes; the webview and playback carry on as they are.
+#[tauri::command]
+pub fn set_mini_player(
+    window: WebviewWindow,
+    mini: bool,
+    bounds: Option<WindowBounds>,
+) -> Result<(), String> {
+    let (width, height) = bounds
+        .as_ref()
+        .map(|b| (b.width, b.height))
+        .unwrap_or(if mini { MINI_SIZE } else { FULL_SIZE });
+    let min_size = mini.then(|| LogicalSize::new(MINI_MIN_SIZE.0, MINI_MIN_SIZE.1));
+
+    window.set_always_on_top(mini).map_err(|e| e.to_string())?;
+    window.set_min_size(min_size).map_err(|e| e.to_string())?;
+    window
+        .set_size(LogicalSize::new(width, height))
+        .map_err(|e| e.to_string())?;
+    if let Some(bounds) = bounds.filter(|b| on_screen(&window, b)) {
+        window
+            .set_position(LogicalPosition::new(bounds.x, bounds.y))
+            .map_err(|e| e.to_string())?;
+    }
+    Ok(())
+}
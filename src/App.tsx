@@ -1,22 +1,85 @@
-import { useState, useEffect, useRef, useCallback, memo, Component, ErrorInfo, ReactNode } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo, Component, ErrorInfo, ReactNode } from "react";
 import "./App.css";
-import { AudioEngine } from "./utils/AudioEngine";
-
-interface Track {
-  path: string;
-  title: string;
-  artist?: string;
-  cover?: string;
-  duration?: number;
-}
-
-interface AudioMetadata {
-  title?: string;
-  artist?: string;
-  album?: string;
-  duration?: number;
-  cover?: string;
-}
+import { AudioEngine, trackRange } from "./utils/AudioEngine";
+import { PlayQueue, RepeatMode } from "./utils/PlayQueue";
+import { loadSession, saveSession } from "./utils/session";
+import { DEFAULT_SETTINGS, Settings, loadSettings, saveSettings } from "./utils/settings";
+import { setMiniPlayer, watchWindowBounds, windowBounds } from "./utils/window";
+import { EqState } from "./utils/equalizer";
+import { EqualizerPanel } from "./components/EqualizerPanel";
+import { ReplayGainSettings } from "./utils/replayGain";
+import { ImportProgress, importPaths, tagsFromLibrary, trackFromMetadata } from "./utils/importer";
+import { PlaylistFormat, hasRangeTracks, isPlaylistFile, readPlaylistFile, writePlaylistFile } from "./utils/playlistFiles";
+import { PlaylistMenu } from "./components/PlaylistMenu";
+import { PlaylistSidebar } from "./components/PlaylistSidebar";
+import { TrackInfoPanel } from "./components/TrackInfoPanel";
+import { TagEdit, writeTags } from "./utils/tags";
+import { PlaylistHeader } from "./components/PlaylistHeader";
+import { SortColumn, SortState, playlistRows } from "./utils/libraryView";
+import { TrackList } from "./components/TrackList";
+import { SettingsPanel } from "./components/SettingsPanel";
+import { WaveformSeekBar } from "./components/WaveformSeekBar";
+import { Visualizer } from "./components/Visualizer";
+import { VISUALIZER_MODES, nextVisualizerMode } from "./utils/visualizer";
+import {
+  FRAME_STEP,
+  LoopPoints,
+  RATE_STEP,
+  SECOND_STEP,
+  clampRate,
+  formatRate,
+  withLoopEnd,
+  withLoopStart
+} from "./utils/transport";
+import { HistoryPanel } from "./components/HistoryPanel";
+import { LibraryPanel } from "./components/LibraryPanel";
+import { LyricsPanel } from "./components/LyricsPanel";
+import { MiniPlayer } from "./components/MiniPlayer";
+import { ShortcutsPanel } from "./components/ShortcutsPanel";
+import {
+  CommandId,
+  GlobalShortcuts,
+  Keymap,
+  chordFromEvent,
+  commandForChord,
+  formatChord,
+  isCommandId,
+  overridesFor,
+  resolveKeymap,
+  withShortcut
+} from "./utils/keymap";
+import { COMMAND_EVENT, KEEP_PLAYING_EVENT, setGlobalShortcuts, setKeepPlaying, updateTray } from "./utils/tray";
+import {
+  EMPTY_HISTORY,
+  History,
+  appendScrobble,
+  listenThreshold,
+  loadHistory,
+  playRecord,
+  recordPlay,
+  recordSkip,
+  saveHistory,
+  scrobbleLogPath
+} from "./utils/history";
+import { checkPlayable, defaultMusicFolders, setMusicFolders, withFolders } from "./utils/musicFolders";
+import { LIBRARY_EVENT, LibraryStatus, libraryStatus, libraryTrack, rescanLibrary } from "./utils/library";
+import { useEventCallback } from "./utils/useEventCallback";
+import { streamUrl } from "./utils/stream";
+import {
+  TRACK_DRAG_TYPE,
+  TrackDragPayload,
+  copyTrack,
+  createPlaylist,
+  duplicatePlaylist,
+  idsInRange,
+  moveTracks,
+  trackKey,
+  uniqueName,
+  updatePlaylistTracks
+} from "./utils/playlists";
+import { Playlist, Track } from "./types";
+
+const NO_TRACKS: Track[] = [];
 
 // Error Boundary Component
 class ErrorBoundary extends Component<
@@ -53,42 +116,6 @@ class ErrorBoundary extends Component<
   }
 }
 
-// Memoized playlist item component
-const PlaylistItem = memo(({
-  track,
-  index,
-  isActive,
-  isPlaying,
-  isSelected,
-  formatTime,
-  onClick
-}: {
-  track: Track;
-  index: number;
-  isActive: boolean;
-  isPlaying: boolean;
-  isSelected: boolean;
-  formatTime: (time: number) => string;
-  onClick: (e: React.MouseEvent) => void;
-}) => (
-  <div
-    className={`playlist-row ${isActive ? 'active' : ''} ${isSelected ? 'selected' : ''}`}
-    onClick={onClick}
-  >
-    <div className="col-idx">
-      {isActive && isPlaying ? (
-        <span>▶</span>
-      ) : (
-        (index + 1).toString().padStart(2, '0')
-      )}
-    </div>
-    <div className="col-title">{track.title}</div>
-    <div className="col-dur">{formatTime(track.duration || 0)}</div>
-  </div>
-));
-
-PlaylistItem.displayName = 'PlaylistItem';
-
 function App() {
   // Create AudioEngine instance once per component
   const audioEngineRef = useRef<AudioEngine | null>(null);
@@ -97,24 +124,101 @@ function App() {
   }
   const audioEngine = audioEngineRef.current;
 
+  // Next/previous decisions (repeat, shuffle) all go through the queue
+  const queueRef = useRef<PlayQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = new PlayQueue();
+  }
+  const queue = queueRef.current;
+
+  // Named playlists. One is shown for editing (viewed); playback keeps
+  // going from the one it started in (playing) until another is played.
+  const initialPlaylistRef = useRef<Playlist | null>(null);
+  if (!initialPlaylistRef.current) {
+    initialPlaylistRef.current = createPlaylist("Playlist 1");
+  }
+  const [playlists, setPlaylists] = useState<Playlist[]>(() => [initialPlaylistRef.current!]);
+  const [viewedId, setViewedId] = useState<string>(initialPlaylistRef.current.id);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+
+  const viewedPlaylist = playlists.find(p => p.id === viewedId) ?? playlists[0];
+  const viewedTracks = viewedPlaylist.tracks;
+  // Tracks of the playing playlist; currentIndex and the queue refer to these
+  const playlist = playlists.find(p => p.id === playingId)?.tracks ?? NO_TRACKS;
+  const viewingPlaying = viewedPlaylist.id === playingId;
+
   const [isPlaying, setIsPlaying] = useState(false);
-  const [playlist, setPlaylist] = useState<Track[]>([]);
   const [currentIndex, setCurrentIndex] = useState<number>(-1);
 
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [volume, setVolume] = useState(1);
+  // Both belong to the current track and are reset when it changes
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [loop, setLoop] = useState<LoopPoints | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [selectedIndices, setSelectedIndices] = useState<Set<number>>(new Set());
-
-  // Track the current object URL to revoke it when switching
-  const currentObjectUrlRef = useRef<string | null>(null);
+  // Selection and keyboard focus follow track ids, so they survive reordering
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  // Row a Shift-click or Shift+arrow range starts from
+  const selectionAnchorRef = useRef<string | null>(null);
+  // Insert position while rows are dragged within the list
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  // Filter and sort only change what's shown, not the playlist order
+  const [filter, setFilter] = useState("");
+  const [sort, setSort] = useState<SortState | null>(null);
+  const filterInputRef = useRef<HTMLInputElement>(null);
+  // Track shown in the info/tag editor panel (from the viewed playlist)
+  const [infoTrackId, setInfoTrackId] = useState<string | null>(null);
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>("off");
+  const [shuffle, setShuffle] = useState(false);
+  // Saving is held back until the previous session has been restored
+  const [sessionLoaded, setSessionLoaded] = useState(false);
+
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  const [showEq, setShowEq] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [history, setHistory] = useState<History>(EMPTY_HISTORY);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [library, setLibrary] = useState<LibraryStatus>({ tracks: 0, scanning: false });
+  const [showLibrary, setShowLibrary] = useState(false);
+  // Global shortcuts the system refused, usually because another app has them
+  const [unavailableGlobal, setUnavailableGlobal] = useState<string[]>([]);
+  // Volume to go back to when unmuting
+  const mutedVolumeRef = useRef<number | null>(null);
+  // Listening to the current track so far, for deciding whether it counts
+  // as played (or was skipped)
+  const listenRef = useRef<{
+    track: Track;
+    // When listening started, in ms since the epoch; 0 until it has
+    startedAt: number;
+    // Seconds actually heard, not counting seeks
+    listened: number;
+    position: number;
+    counted: boolean;
+  } | null>(null);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
 
   // State Refs for Callbacks
   const playlistRef = useRef(playlist);
   const indexRef = useRef(currentIndex);
   useEffect(() => { playlistRef.current = playlist; }, [playlist]);
   useEffect(() => { indexRef.current = currentIndex; }, [currentIndex]);
+  const currentTimeRef = useRef(currentTime);
+  const volumeRef = useRef(volume);
+  useEffect(() => { currentTimeRef.current = currentTime; }, [currentTime]);
+  useEffect(() => { volumeRef.current = volume; }, [volume]);
+  const playlistsRef = useRef(playlists);
+  const viewedIdRef = useRef(viewedPlaylist.id);
+  const playingIdRef = useRef(playingId);
+  useEffect(() => { playlistsRef.current = playlists; }, [playlists]);
+  useEffect(() => { viewedIdRef.current = viewedPlaylist.id; }, [viewedPlaylist.id]);
+  useEffect(() => { playingIdRef.current = playingId; }, [playingId]);
+  const settingsRef = useRef(settings);
+  useEffect(() => { settingsRef.current = settings; }, [settings]);
+  const historyRef = useRef(history);
+  useEffect(() => { historyRef.current = history; }, [history]);
 
 
   // --- Helper Functions ---
@@ -124,25 +228,39 @@ function App() {
     return validExtensions.some(ext => path.toLowerCase().endsWith(ext));
   };
 
-  const getMimeType = (path: string): string => {
-    const ext = path.toLowerCase().split('.').pop();
-    const mimeTypes: Record<string, string> = {
-      'mp3': 'audio/mpeg',
-      'm4a': 'audio/mp4',
-      'flac': 'audio/flac',
-      'wav': 'audio/wav',
-      'ogg': 'audio/ogg',
-      'opus': 'audio/opus',
-      'aac': 'audio/aac',
-      'wma': 'audio/x-ms-wma'
-    };
-    return mimeTypes[ext || ''] || 'audio/mpeg'; // fallback to mp3
-  };
+  const updateSettings = useCallback((patch: Partial<Settings> | ((prev: Settings) => Partial<Settings>)) => {
+    // Built on the latest settings, including updates not yet rendered, and
+    // saved outside the state updater (which React may run more than once)
+    const prev = settingsRef.current;
+    const next = { ...prev, ...(typeof patch === "function" ? patch(prev) : patch) };
+    settingsRef.current = next;
+    setSettings(next);
+    saveSettings(next).catch(e => console.error("Failed to save settings:", e));
+  }, []);
 
-  const playTrack = useCallback(async (index: number, currentList = playlist) => {
+  // Music folders take effect in the backend first, so nothing is imported
+  // or played against the old list once the new one is saved
+  const updateMusicFolders = useCallback(async (musicFolders: string[]) => {
+    await setMusicFolders(musicFolders);
+    updateSettings({ musicFolders });
+  }, [updateSettings]);
+
+  const playTrack = useCallback(async (
+    index: number,
+    currentList = playlist,
+    { autoplay = true, startAt = 0 }: { autoplay?: boolean; startAt?: number } = {}
+  ) => {
     if (index < 0 || index >= currentList.length) return;
     const track = currentList[index];
 
+    if (track.missing) {
+      const errorMsg = "File not found";
+      console.error(errorMsg, track.path);
+      setErrorMessage(errorMsg);
+      setTimeout(() => setErrorMessage(null), 3000);
+      return;
+    }
+
     // Validate file type before attempting to play
     if (!isValidAudioFile(track.path)) {
       const errorMsg = "Invalid audio file type";
@@ -152,26 +270,29 @@ function App() {
       return;
     }
 
+    // The backend refuses to stream files outside the music folders; say so
+    // here rather than leaving the player to fail on a blocked request
+    const problem = await checkPlayable(track.path);
+    if (problem) {
+      console.error(problem, track.path);
+      setErrorMessage(problem);
+      setTimeout(() => setErrorMessage(null), 6000);
+      return;
+    }
+
     setCurrentIndex(index);
+    queue.visit(index);
 
     try {
-      if (currentObjectUrlRef.current) {
-        URL.revokeObjectURL(currentObjectUrlRef.current);
-        currentObjectUrlRef.current = null;
+      // Same URL as a preloaded or already handed-off track, so the engine
+      // can tell and doesn't start it over
+      audioEngine.load(streamUrl(track.path), startAt, track.replayGain, trackRange(track));
+      audioEngine.setVolume(volumeRef.current);
+      setCurrentTime(startAt);
+      if (autoplay) {
+        await audioEngine.play();
+        setIsPlaying(true);
       }
-
-      const { readFile } = await import('@tauri-apps/plugin-fs');
-      const bytes = await readFile(track.path);
-      const mimeType = getMimeType(track.path);
-      const blob = new Blob([bytes], { type: mimeType });
-      const url = URL.createObjectURL(blob);
-
-      currentObjectUrlRef.current = url;
-
-      audioEngine.load(url);
-      audioEngine.setVolume(volume);
-      await audioEngine.play();
-      setIsPlaying(true);
       setErrorMessage(null);
 
     } catch (e) {
@@ -181,15 +302,262 @@ function App() {
       setTimeout(() => setErrorMessage(null), 3000);
       setIsPlaying(false);
     }
-  }, [playlist, volume, audioEngine]);
+  }, [playlist, audioEngine, queue]);
+
+  // Play a track from a given playlist. If that isn't the playlist currently
+  // playing, playback (and the queue) moves over to it.
+  const playFromPlaylist = useCallback((id: string, tracks: Track[], index: number) => {
+    if (id !== playingIdRef.current) {
+      playingIdRef.current = id;
+      playlistRef.current = tracks;
+      setPlayingId(id);
+      queue.reset(tracks.length);
+      audioEngine.clearPreload();
+    }
+    playTrack(index, tracks);
+  }, [queue, audioEngine, playTrack]);
+
+  // Advance through the queue. `auto` marks the current track having ended on
+  // its own. Missing files are skipped rather than stopping playback.
+  const playNext = useCallback((auto = false) => {
+    const list = playlistRef.current;
+    const current = indexRef.current;
+    let idx = current;
+    for (let tries = 0; tries < list.length; tries++) {
+      const next = queue.next(idx, auto);
+      if (next === null) break;
+      if (auto && next === current) {
+        // Repeat one: rewind instead of reloading the file
+        audioEngine.seek(0);
+        audioEngine.play().catch(e => console.error("Playback failed:", e));
+        return;
+      }
+      if (!list[next]?.missing) {
+        playTrack(next, list);
+        return;
+      }
+      idx = next;
+    }
+    if (auto) setIsPlaying(false);
+  }, [queue, audioEngine, playTrack]);
+
+  const playPrevious = useCallback(() => {
+    const list = playlistRef.current;
+    let idx = indexRef.current;
+    for (let tries = 0; tries < list.length; tries++) {
+      const prev = queue.previous(idx);
+      if (prev === null) return;
+      if (!list[prev]?.missing) {
+        playTrack(prev, list);
+        return;
+      }
+      idx = prev;
+    }
+  }, [queue, playTrack]);
+
+  const cycleRepeatMode = useCallback(() => {
+    const order: RepeatMode[] = ["off", "all", "one"];
+    const next = order[(order.indexOf(queue.getRepeat()) + 1) % order.length];
+    queue.setRepeat(next);
+    setRepeatMode(next);
+  }, [queue]);
+
+  const toggleShuffle = useCallback(() => {
+    const enabled = !queue.isShuffled();
+    queue.setShuffle(enabled, indexRef.current);
+    setShuffle(enabled);
+  }, [queue]);
+
+  // Add files and folders (walked recursively by the backend) to a playlist,
+  // the viewed one by default. Tracks show up folder by folder while the
+  // import is still running.
+  const addPaths = useCallback(async (paths: string[], targetId = viewedIdRef.current) => {
+    // Start playing right away if this fills an empty playlist while idle
+    const target = playlistsRef.current.find(p => p.id === targetId);
+    const autoplay = target?.tracks.length === 0 && indexRef.current === -1;
+    let started = false;
+
+    try {
+      const { count, rejected } = await importPaths(paths, (tracks) => {
+        setPlaylists(prev => updatePlaylistTracks(prev, targetId, current => {
+          const updated = [...current, ...tracks];
+          if (autoplay && !started && updated.length > 0) {
+            started = true;
+            // Use queueMicrotask to defer playback until after state update
+            queueMicrotask(() => playFromPlaylist(targetId, updated, 0));
+          }
+          return updated;
+        }));
+      }, setImportProgress);
+
+      if (rejected) {
+        // Offer to let the folders in rather than silently dropping files
+        const { ask } = await import('@tauri-apps/plugin-dialog');
+        const listed = rejected.folders.join("\n");
+        const confirmed = await ask(
+          `${rejected.paths.length} item(s) are outside your music folders and were not added.\n\nAdd these music folders and import them?\n\n${listed}`,
+          { title: "Outside Music Folders", kind: "warning" }
+        );
+        if (confirmed) {
+          await updateMusicFolders(withFolders(settingsRef.current.musicFolders ?? [], rejected.folders));
+          await addPaths(rejected.paths, targetId);
+        }
+      } else if (count === 0) {
+        console.warn("No valid audio files in dropped items");
+      }
+    } catch (e) {
+      const errorMsg = "Failed to import files";
+      console.error(errorMsg, e);
+      setErrorMessage(errorMsg);
+      setTimeout(() => setErrorMessage(null), 3000);
+    }
+  }, [playFromPlaylist, updateMusicFolders]);
+
+  // Load .m3u/.m3u8/.pls files, each into a new playlist named after the
+  // file. Entries that exist are imported in order, the rest are reported.
+  const importPlaylistFiles = useCallback(async (files: string[]) => {
+    const { invoke } = await import('@tauri-apps/api/core');
+    for (const file of files) {
+      const name = file.split(/[\\/]/).pop() || file;
+      try {
+        const parsed = await readPlaylistFile(file);
+        const paths = parsed.entries.map(e => e.path);
+        const present = await invoke<boolean[]>('paths_exist', { paths });
+        const found = paths.filter((_, i) => present[i]);
+        const missing = [...paths.filter((_, i) => !present[i]), ...parsed.unsupported];
+
+        if (found.length > 0) {
+          const created = createPlaylist(uniqueName(name.replace(/\.[^/.]+$/, ""), playlistsRef.current));
+          playlistsRef.current = [...playlistsRef.current, created];
+          setPlaylists(prev => [...prev, created]);
+          setViewedId(created.id);
+          clearSelection();
+          await addPaths(found, created.id);
+        }
+        if (missing.length > 0) {
+          const total = paths.length + parsed.unsupported.length;
+          const errorMsg = `${missing.length} of ${total} entries in ${name} could not be found`;
+          console.warn(errorMsg, missing);
+          setErrorMessage(errorMsg);
+          setTimeout(() => setErrorMessage(null), 6000);
+        }
+      } catch (e) {
+        const errorMsg = `Failed to read playlist ${name}`;
+        console.error(errorMsg, e);
+        setErrorMessage(errorMsg);
+        setTimeout(() => setErrorMessage(null), 3000);
+      }
+    }
+  }, [addPaths]);
+
+  const handleDroppedPaths = useCallback((paths: string[]) => {
+    const playlistFiles = paths.filter(isPlaylistFile);
+    const others = paths.filter(path => !isPlaylistFile(path));
+    if (others.length > 0) addPaths(others);
+    if (playlistFiles.length > 0) importPlaylistFiles(playlistFiles);
+  }, [addPaths, importPlaylistFiles]);
+
+  const importPlaylist = useCallback(async () => {
+    const { open } = await import('@tauri-apps/plugin-dialog');
+    const selected = await open({
+      multiple: true,
+      title: "Import Playlist",
+      filters: [{ name: "Playlists", extensions: ["m3u", "m3u8", "pls"] }]
+    });
+    if (!selected) return;
+    importPlaylistFiles(Array.isArray(selected) ? selected : [selected]);
+  }, [importPlaylistFiles]);
+
+  const exportPlaylist = useCallback(async (format: PlaylistFormat) => {
+    if (viewedTracks.length === 0) return;
+    const { save } = await import('@tauri-apps/plugin-dialog');
+    const path = await save({
+      title: "Export Playlist",
+      defaultPath: `${viewedPlaylist.name}.${format}`,
+      filters: [{ name: format === "pls" ? "PLS Playlist" : "M3U8 Playlist", extensions: [format] }]
+    });
+    if (!path) return;
+
+    try {
+      await writePlaylistFile(path, viewedTracks, format, settings.exportRelativePaths);
+      if (hasRangeTracks(viewedTracks)) {
+        const errorMsg = "Tracks from CUE sheets were exported as their whole files";
+        setErrorMessage(errorMsg);
+        setTimeout(() => setErrorMessage(null), 6000);
+      }
+    } catch (e) {
+      const errorMsg = "Failed to export playlist";
+      console.error(errorMsg, e);
+      setErrorMessage(errorMsg);
+      setTimeout(() => setErrorMessage(null), 3000);
+    }
+  }, [viewedTracks, viewedPlaylist.name, settings.exportRelativePaths]);
+
+  const addFolder = useCallback(async () => {
+    const { open } = await import('@tauri-apps/plugin-dialog');
+    const selected = await open({ directory: true, multiple: true, title: "Add Folder" });
+    if (!selected) return;
+    addPaths(Array.isArray(selected) ? selected : [selected]);
+  }, [addPaths]);
+
+  const addMusicFolder = useCallback(async () => {
+    const { open } = await import('@tauri-apps/plugin-dialog');
+    const selected = await open({ directory: true, multiple: true, title: "Add Music Folder" });
+    if (!selected) return;
+    const added = Array.isArray(selected) ? selected : [selected];
+    try {
+      await updateMusicFolders(withFolders(settingsRef.current.musicFolders ?? [], added));
+    } catch (e) {
+      const errorMsg = "Failed to update music folders";
+      console.error(errorMsg, e);
+      setErrorMessage(errorMsg);
+      setTimeout(() => setErrorMessage(null), 3000);
+    }
+  }, [updateMusicFolders]);
+
+  const removeMusicFolder = useCallback(async (folder: string) => {
+    try {
+      await updateMusicFolders((settingsRef.current.musicFolders ?? []).filter(f => f !== folder));
+    } catch (e) {
+      const errorMsg = "Failed to update music folders";
+      console.error(errorMsg, e);
+      setErrorMessage(errorMsg);
+      setTimeout(() => setErrorMessage(null), 3000);
+    }
+  }, [updateMusicFolders]);
+
+  const closeSettings = useCallback(() => setShowSettings(false), []);
+
+  const cycleVisualizer = useCallback(() => {
+    updateSettings(prev => ({ visualizer: nextVisualizerMode(prev.visualizer) }));
+  }, [updateSettings]);
+
+  // Same window and player either way; only the layout and the window's
+  // size, position and stacking change
+  const toggleMiniPlayer = useEventCallback(async () => {
+    const mini = !settings.miniPlayer;
+    const leaving = await windowBounds().catch(() => null);
+    const windowBoundsByMode = leaving
+      ? { ...settings.windowBounds, [settings.miniPlayer ? "mini" : "full"]: leaving }
+      : settings.windowBounds;
+    updateSettings({ miniPlayer: mini, windowBounds: windowBoundsByMode });
+    try {
+      await setMiniPlayer(mini, windowBoundsByMode[mini ? "mini" : "full"]);
+    } catch (e) {
+      const errorMsg = "Failed to resize the window";
+      console.error(errorMsg, e);
+      setErrorMessage(errorMsg);
+      setTimeout(() => setErrorMessage(null), 3000);
+    }
+  });
 
   const togglePlay = useCallback(() => {
     if (isPlaying) {
       audioEngine.pause();
       setIsPlaying(false);
     } else {
-      if (currentIndex === -1 && playlist.length > 0) {
-        playTrack(0);
+      if (currentIndex === -1 && viewedTracks.length > 0) {
+        playFromPlaylist(viewedPlaylist.id, viewedTracks, 0);
       } else {
         audioEngine.play().then(() => {
           setIsPlaying(true);
@@ -199,13 +567,161 @@ function App() {
         });
       }
     }
-  }, [isPlaying, currentIndex, playlist, audioEngine, playTrack]);
+  }, [isPlaying, currentIndex, viewedTracks, viewedPlaylist.id, audioEngine, playFromPlaylist]);
 
-  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const time = parseFloat(e.target.value);
+  const handleSeek = useCallback((time: number) => {
     audioEngine.seek(time);
     setCurrentTime(time);
-  };
+  }, [audioEngine]);
+
+  // Relative seek, kept within the track
+  const seekBy = useCallback((seconds: number) => {
+    const time = Math.max(0, Math.min(currentTimeRef.current + seconds, duration || Infinity));
+    handleSeek(time);
+  }, [duration, handleSeek]);
+
+  const changeRate = useCallback((delta: number) => {
+    setPlaybackRate(rate => clampRate(rate + delta));
+  }, []);
+
+  const setLoopStart = useCallback(() => {
+    setLoop(prev => withLoopStart(prev, currentTimeRef.current));
+  }, []);
+
+  const setLoopEnd = useCallback(() => {
+    setLoop(prev => withLoopEnd(prev, currentTimeRef.current));
+  }, []);
+
+  const clearLoop = useCallback(() => setLoop(null), []);
+
+  // --- Play history ---
+
+  const updateHistory = useCallback((update: (prev: History) => History) => {
+    // Saved outside the state updater, like the settings
+    const next = update(historyRef.current);
+    historyRef.current = next;
+    setHistory(next);
+    saveHistory(next).catch(e => console.error("Failed to save history:", e));
+  }, []);
+
+  const beginListen = useCallback((track: Track | undefined) => {
+    listenRef.current = track ? { track, startedAt: 0, listened: 0, position: 0, counted: false } : null;
+  }, []);
+
+  // Leaving a track before it counted as played is a skip, unless it
+  // simply ended (tracks too short to ever count)
+  const endListen = useCallback((ended: boolean) => {
+    const listen = listenRef.current;
+    listenRef.current = null;
+    if (!listen || ended || listen.counted || listen.listened === 0) return;
+    updateHistory(prev => recordSkip(prev, listen.track));
+  }, [updateHistory]);
+
+  // Called on every time update of the playing track
+  const trackListen = useEventCallback((time: number) => {
+    const listen = listenRef.current;
+    if (!listen) return;
+    const delta = time - listen.position;
+    listen.position = time;
+    // Seeks and loop jumps aren't listening; at 2x, updates are about half a second apart
+    if (delta <= 0 || delta > 2) return;
+    if (listen.listened === 0) listen.startedAt = Date.now() - delta * 1000;
+    listen.listened += delta;
+
+    const length = listen.track.duration || duration;
+    const threshold = listenThreshold(length);
+    if (listen.counted || threshold === null || listen.listened < threshold) return;
+    listen.counted = true;
+    const record = playRecord(listen.track, listen.startedAt, length);
+    updateHistory(prev => recordPlay(prev, record, listen.track));
+    appendScrobble(record).catch(e => console.error("Failed to write scrobble log:", e));
+  });
+
+  const trackEnded = useEventCallback(() => {
+    endListen(true);
+    // Repeat one plays the same track again without it changing
+    beginListen(playlistRef.current[indexRef.current]);
+  });
+
+  // Play a track from the history: where it already is in a playlist
+  // (the playing one first), otherwise added to the viewed playlist
+  const playFromHistory = useCallback(async (path: string, start?: number) => {
+    const lists = [
+      ...playlistsRef.current.filter(p => p.id === playingIdRef.current || p.id === viewedIdRef.current),
+      ...playlistsRef.current
+    ];
+    for (const list of lists) {
+      const index = list.tracks.findIndex(t => t.path === path && t.start === start);
+      if (index !== -1) {
+        playFromPlaylist(list.id, list.tracks, index);
+        return;
+      }
+    }
+    const track = await libraryTrack(path, start).catch(() => trackFromMetadata(path, null));
+    const targetId = viewedIdRef.current;
+    const target = playlistsRef.current.find(p => p.id === targetId);
+    if (!target) return;
+    const tracks = [...target.tracks, track];
+    setPlaylists(prev => updatePlaylistTracks(prev, targetId, () => tracks));
+    playFromPlaylist(targetId, tracks, tracks.length - 1);
+  }, [playFromPlaylist]);
+
+  const showScrobbleLog = useCallback(async () => {
+    try {
+      const { revealItemInDir } = await import('@tauri-apps/plugin-opener');
+      await revealItemInDir(await scrobbleLogPath());
+    } catch (e) {
+      const errorMsg = "No plays have been logged yet";
+      console.error(errorMsg, e);
+      setErrorMessage(errorMsg);
+      setTimeout(() => setErrorMessage(null), 3000);
+    }
+  }, []);
+
+  const closeHistory = useCallback(() => setShowHistory(false), []);
+
+  // --- Shortcuts ---
+
+  const keymap = useMemo(() => resolveKeymap(settings.keymap), [settings.keymap]);
+
+  const updateKeymap = useCallback((next: Keymap) => {
+    updateSettings({ keymap: overridesFor(next) });
+  }, [updateSettings]);
+
+  const updateGlobalShortcuts = useCallback((globalShortcuts: GlobalShortcuts) => {
+    updateSettings({ globalShortcuts });
+  }, [updateSettings]);
+
+  const closeShortcuts = useCallback(() => setShowShortcuts(false), []);
+
+  const changeVolume = useCallback((v: number) => {
+    mutedVolumeRef.current = null;
+    setVolume(v);
+    audioEngine.setVolume(v);
+  }, [audioEngine]);
+
+  const toggleMute = useCallback(() => {
+    const restore = mutedVolumeRef.current;
+    if (restore !== null) {
+      changeVolume(restore);
+    } else if (volumeRef.current > 0) {
+      const previous = volumeRef.current;
+      changeVolume(0);
+      mutedVolumeRef.current = previous;
+    }
+  }, [changeVolume]);
+
+  const revealTrack = useCallback(async (path: string) => {
+    try {
+      const { revealItemInDir } = await import('@tauri-apps/plugin-opener');
+      await revealItemInDir(path);
+    } catch (e) {
+      const errorMsg = "Failed to show file";
+      console.error(errorMsg, e);
+      setErrorMessage(errorMsg);
+      setTimeout(() => setErrorMessage(null), 3000);
+    }
+  }, []);
 
   const formatTime = useCallback((time: number) => {
     if (!time || isNaN(time)) return "0:00";
@@ -222,90 +738,503 @@ function App() {
     return `-${m}:${s.toString().padStart(2, "0")}`;
   }, []);
 
+  // Rows of the viewed playlist as shown, after filtering and sorting
+  const rows = useMemo(() => playlistRows(viewedTracks, filter, sort), [viewedTracks, filter, sort]);
+  const rowTracks = useMemo(() => rows.map(row => row.track), [rows]);
+  // Drag reordering only makes sense while the list shows the real order
+  const canReorder = filter === "" && sort === null;
+
+  const clearSelection = useCallback(() => {
+    setSelectedIds(new Set());
+    setFocusedId(null);
+    selectionAnchorRef.current = null;
+  }, []);
+
   const handlePlaylistItemClick = useCallback((index: number, e: React.MouseEvent) => {
-    if (e.metaKey || e.ctrlKey) {
+    const id = viewedTracks[index].id;
+    const toggle = e.metaKey || e.ctrlKey;
+
+    if (e.shiftKey && selectionAnchorRef.current) {
+      // Shift + Click: Select the range from the anchor (Cmd adds it to the selection)
+      const range = idsInRange(rowTracks, selectionAnchorRef.current, id);
+      setSelectedIds(prev => new Set(toggle ? [...prev, ...range] : range));
+    } else if (toggle || e.shiftKey) {
       // Cmd/Ctrl + Click: Toggle selection
-      setSelectedIndices(prev => {
+      setSelectedIds(prev => {
         const newSet = new Set(prev);
-        if (newSet.has(index)) {
-          newSet.delete(index);
+        if (newSet.has(id)) {
+          newSet.delete(id);
         } else {
-          newSet.add(index);
+          newSet.add(id);
         }
         return newSet;
       });
+      selectionAnchorRef.current = id;
     } else {
       // Normal click: Play track and clear selection
-      playTrack(index);
-      setSelectedIndices(new Set());
+      playFromPlaylist(viewedPlaylist.id, viewedTracks, index);
+      setSelectedIds(new Set());
+      selectionAnchorRef.current = id;
+    }
+    setFocusedId(id);
+  }, [playFromPlaylist, viewedPlaylist.id, viewedTracks, rowTracks]);
+
+  const handlePlaylistItemDragStart = useCallback((index: number, e: React.DragEvent) => {
+    // Drag the whole selection if the row is part of it, otherwise just the row
+    const id = viewedTracks[index].id;
+    const trackIds = selectedIds.has(id)
+      ? viewedTracks.filter(t => selectedIds.has(t.id)).map(t => t.id)
+      : [id];
+    const payload: TrackDragPayload = { playlistId: viewedPlaylist.id, trackIds };
+    e.dataTransfer.setData(TRACK_DRAG_TYPE, JSON.stringify(payload));
+    e.dataTransfer.effectAllowed = "copyMove";
+  }, [selectedIds, viewedTracks, viewedPlaylist.id]);
+
+  // Put the viewed playlist in a new order. The playing track keeps playing
+  // and the queue follows it.
+  const applyOrder = useCallback((reordered: Track[]) => {
+    const tracks = viewedTracks;
+    if (reordered.every((t, i) => t === tracks[i])) return;
+
+    setPlaylists(prev => updatePlaylistTracks(prev, viewedPlaylist.id, () => reordered));
+    if (!viewingPlaying) return;
+
+    const oldIndex = new Map(tracks.map((t, i) => [t.id, i]));
+    queue.reorder(reordered.map(t => oldIndex.get(t.id)!));
+    const currentId = tracks[indexRef.current]?.id;
+    if (currentId) {
+      const newIndex = reordered.findIndex(t => t.id === currentId);
+      indexRef.current = newIndex;
+      setCurrentIndex(newIndex);
+    }
+  }, [viewedTracks, viewedPlaylist.id, viewingPlaying, queue]);
+
+  // Move tracks in front of the row at `insertAt`
+  const reorderTracks = useCallback((ids: Set<string>, insertAt: number) => {
+    applyOrder(moveTracks(viewedTracks, ids, insertAt));
+  }, [viewedTracks, applyOrder]);
+
+  // Clicking a column header cycles ascending, descending, playlist order
+  const handleSort = useCallback((column: SortColumn) => {
+    setSort(prev => {
+      if (prev?.column !== column) return { column, descending: false };
+      return prev.descending ? null : { column, descending: true };
+    });
+  }, []);
+
+  // Reorder the playlist itself to the current sort, hidden rows included
+  const applySort = useCallback(() => {
+    applyOrder(playlistRows(viewedTracks, "", sort).map(row => row.track));
+    setSort(null);
+  }, [viewedTracks, sort, applyOrder]);
+
+  // Rows dragged within the list: work out the insert position from which
+  // half of the row the pointer is over
+  const handlePlaylistDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    if (!canReorder || !e.dataTransfer.types.includes(TRACK_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    const row = (e.target as HTMLElement).closest<HTMLElement>(".playlist-row");
+    let index = viewedTracks.length;
+    if (row) {
+      const rect = row.getBoundingClientRect();
+      index = Number(row.dataset.index) + (e.clientY > rect.top + rect.height / 2 ? 1 : 0);
+    }
+    setDropIndex(index);
+  }, [canReorder, viewedTracks.length]);
+
+  const handlePlaylistDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    const data = e.dataTransfer.getData(TRACK_DRAG_TYPE);
+    const insertAt = dropIndex;
+    setDropIndex(null);
+    if (!data || insertAt === null) return;
+    e.preventDefault();
+    try {
+      const payload = JSON.parse(data) as TrackDragPayload;
+      if (payload.playlistId === viewedPlaylist.id) {
+        reorderTracks(new Set(payload.trackIds), insertAt);
+      }
+    } catch (err) {
+      console.error("Invalid track drag data:", err);
     }
-  }, [playTrack]);
+  }, [dropIndex, viewedPlaylist.id, reorderTracks]);
 
   const deleteSelectedTracks = useCallback(() => {
-    if (selectedIndices.size === 0) return;
+    if (selectedIds.size === 0) return;
+
+    const indicesToDelete = viewedTracks
+      .map((t, i) => (selectedIds.has(t.id) ? i : -1))
+      .filter(i => i !== -1)
+      .reverse();
+
+    setPlaylists(prev => updatePlaylistTracks(prev, viewedPlaylist.id, tracks =>
+      tracks.filter(t => !selectedIds.has(t.id))
+    ));
+    clearSelection();
+
+    // Only the playing playlist affects the queue and current track
+    if (!viewingPlaying) return;
+    queue.removeIndices(indicesToDelete);
+
+    // Keep pointing at the current track, or stop pointing anywhere if it went
+    const currentId = viewedTracks[indexRef.current]?.id;
+    if (!currentId) return;
+    if (selectedIds.has(currentId)) {
+      setCurrentIndex(-1);
+    } else {
+      setCurrentIndex(viewedTracks.filter(t => !selectedIds.has(t.id)).findIndex(t => t.id === currentId));
+    }
+  }, [selectedIds, viewedTracks, queue, viewedPlaylist.id, viewingPlaying, clearSelection]);
+
+  // Arrow keys move the focused row through the rows as shown; with Shift
+  // they extend the selection
+  const moveFocus = useCallback((delta: number, extend: boolean) => {
+    if (rowTracks.length === 0) return;
+    const currentId = viewingPlaying ? playlist[currentIndex]?.id : undefined;
+    const from = rowTracks.findIndex(t => t.id === (focusedId ?? currentId));
+    const to = from === -1
+      ? (delta > 0 ? 0 : rowTracks.length - 1)
+      : Math.max(0, Math.min(rowTracks.length - 1, from + delta));
+    const id = rowTracks[to].id;
+
+    if (extend) {
+      if (!selectionAnchorRef.current) selectionAnchorRef.current = rowTracks[Math.max(0, from)].id;
+      setSelectedIds(new Set(idsInRange(rowTracks, selectionAnchorRef.current, id)));
+    } else {
+      selectionAnchorRef.current = id;
+      setSelectedIds(new Set([id]));
+    }
+    setFocusedId(id);
+  }, [rowTracks, focusedId, viewingPlaying, playlist, currentIndex]);
+
+  // Handlers for the track list. Their identity never changes, so progress
+  // updates during playback don't re-render the (memoized) rows.
+  const onRowClick = useEventCallback(handlePlaylistItemClick);
+  const onRowDragStart = useEventCallback(handlePlaylistItemDragStart);
+  const onRowContextMenu = useEventCallback((index: number, e: React.MouseEvent) => {
+    e.preventDefault();
+    setInfoTrackId(viewedTracks[index].id);
+  });
+  const onListDragOver = useEventCallback(handlePlaylistDragOver);
+  const onListDrop = useEventCallback(handlePlaylistDrop);
+  const onListDragLeave = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropIndex(null);
+  }, []);
+  const onListDragEnd = useCallback(() => setDropIndex(null), []);
+
+  // Footer totals, only recomputed when the list itself changes
+  const viewedTotalDuration = useMemo(
+    () => viewedTracks.reduce((acc, t) => acc + (t.duration || 0), 0),
+    [viewedTracks]
+  );
 
-    const indicesToDelete = Array.from(selectedIndices).sort((a, b) => b - a);
+  // --- Tag editing ---
 
-    setPlaylist(prev => {
-      const newPlaylist = [...prev];
-      indicesToDelete.forEach(idx => {
-        newPlaylist.splice(idx, 1);
-      });
-      return newPlaylist;
+  const infoTrack = useMemo(() => (
+    infoTrackId
+      ? viewedTracks.find(t => t.id === infoTrackId) ?? playlist.find(t => t.id === infoTrackId) ?? null
+      : null
+  ), [infoTrackId, viewedTracks, playlist]);
+
+  // Write tags to the file, then update every entry for it in every playlist
+  // (copies in other playlists share the file). Tracks split out of it by a
+  // CUE sheet keep the sheet's tags.
+  const saveTags = useCallback(async (path: string, tags: TagEdit) => {
+    try {
+      const updated = tagsFromLibrary(await writeTags(path, tags));
+      const isFile = (t: Track) => t.path === path && t.start === undefined;
+      setPlaylists(prev => prev.map(p => (
+        p.tracks.some(isFile)
+          ? { ...p, tracks: p.tracks.map(t => (isFile(t) ? { ...t, ...updated } : t)) }
+          : p
+      )));
+      setInfoTrackId(null);
+    } catch (e) {
+      const errorMsg = `Failed to save tags: ${e}`;
+      console.error(errorMsg, e);
+      setErrorMessage(errorMsg);
+      setTimeout(() => setErrorMessage(null), 3000);
+    }
+  }, []);
+
+  const pickCoverImage = useCallback(async () => {
+    const { open } = await import('@tauri-apps/plugin-dialog');
+    const selected = await open({
+      title: "Choose Cover Image",
+      multiple: false,
+      filters: [{ name: "Images", extensions: ["jpg", "jpeg", "png", "gif", "bmp", "webp"] }]
     });
+    return typeof selected === "string" ? selected : null;
+  }, []);
 
-    // Adjust currentIndex if needed
-    setCurrentIndex(prevIdx => {
-      if (prevIdx === -1) return -1;
-
-      let newIdx = prevIdx;
-      for (const deletedIdx of indicesToDelete) {
-        if (deletedIdx < prevIdx) {
-          newIdx--;
-        } else if (deletedIdx === prevIdx) {
-          // Current track was deleted
-          return -1;
-        }
-      }
-      return newIdx;
+  const closeTrackInfo = useCallback(() => setInfoTrackId(null), []);
+
+  // --- Playlist management ---
+
+  const selectPlaylist = useCallback((id: string) => {
+    setViewedId(id);
+    setFilter("");
+    clearSelection();
+  }, [clearSelection]);
+
+  const createNewPlaylist = useCallback(() => {
+    const created = createPlaylist(uniqueName("New Playlist", playlistsRef.current));
+    setPlaylists(prev => [...prev, created]);
+    selectPlaylist(created.id);
+  }, [selectPlaylist]);
+
+  const renamePlaylist = useCallback((id: string, name: string) => {
+    setPlaylists(prev => prev.map(p => (p.id === id ? { ...p, name } : p)));
+  }, []);
+
+  const duplicatePlaylistById = useCallback((id: string) => {
+    const source = playlistsRef.current.find(p => p.id === id);
+    if (!source) return;
+    const copy = duplicatePlaylist(source, playlistsRef.current);
+    setPlaylists(prev => {
+      // Place the copy right after its source
+      const idx = prev.findIndex(p => p.id === id);
+      return [...prev.slice(0, idx + 1), copy, ...prev.slice(idx + 1)];
     });
+    selectPlaylist(copy.id);
+  }, [selectPlaylist]);
+
+  const deletePlaylist = useCallback(async (id: string) => {
+    const target = playlistsRef.current.find(p => p.id === id);
+    if (!target || playlistsRef.current.length <= 1) return;
+
+    if (target.tracks.length > 0) {
+      const { ask } = await import('@tauri-apps/plugin-dialog');
+      const confirmed = await ask(`Delete "${target.name}" and its ${target.tracks.length} tracks?`, {
+        title: "Delete Playlist",
+        kind: "warning"
+      });
+      if (!confirmed) return;
+    }
+
+    // Deleting the playlist that's playing stops playback
+    if (id === playingIdRef.current) {
+      audioEngine.pause();
+      audioEngine.clearPreload();
+      setIsPlaying(false);
+      setCurrentIndex(-1);
+      setCurrentTime(0);
+      setDuration(0);
+      setPlayingId(null);
+      playingIdRef.current = null;
+    }
+
+    const remaining = playlistsRef.current.filter(p => p.id !== id);
+    setPlaylists(remaining);
+    if (viewedIdRef.current === id) {
+      const idx = playlistsRef.current.findIndex(p => p.id === id);
+      selectPlaylist(remaining[Math.min(idx, remaining.length - 1)].id);
+    }
+  }, [audioEngine, selectPlaylist]);
+
+  // Tracks dragged onto a sidebar entry are copied to the end of that playlist
+  const copyTracksToPlaylist = useCallback((targetId: string, payload: TrackDragPayload) => {
+    if (targetId === payload.playlistId) return;
+    const source = playlistsRef.current.find(p => p.id === payload.playlistId);
+    if (!source) return;
+    const ids = new Set(payload.trackIds);
+    const tracks = source.tracks.filter(t => ids.has(t.id)).map(copyTrack);
+    if (tracks.length === 0) return;
+    setPlaylists(prev => updatePlaylistTracks(prev, targetId, current => [...current, ...tracks]));
+  }, []);
 
-    setSelectedIndices(new Set());
-  }, [selectedIndices]);
+
+  const setEqualizer = useCallback((equalizer: EqState) => {
+    updateSettings({ equalizer });
+  }, [updateSettings]);
+
+  const setReplayGain = useCallback((replayGain: ReplayGainSettings) => {
+    updateSettings({ replayGain });
+  }, [updateSettings]);
+
+  const saveEqPreset = useCallback((name: string) => {
+    updateSettings(prev => ({
+      customEqPresets: [
+        ...prev.customEqPresets.filter(p => p.name !== name),
+        { name, preamp: prev.equalizer.preamp, bands: [...prev.equalizer.bands] }
+      ],
+      equalizer: { ...prev.equalizer, preset: name }
+    }));
+  }, [updateSettings]);
+
+  const deleteEqPreset = useCallback((name: string) => {
+    updateSettings(prev => ({
+      customEqPresets: prev.customEqPresets.filter(p => p.name !== name),
+      equalizer: prev.equalizer.preset === name ? { ...prev.equalizer, preset: null } : prev.equalizer
+    }));
+  }, [updateSettings]);
+
+  const persistSession = useCallback(() => {
+    saveSession({
+      playlists: playlistsRef.current,
+      viewedId: viewedIdRef.current,
+      playingId: playingIdRef.current,
+      currentIndex: indexRef.current,
+      currentTime: currentTimeRef.current,
+      volume: volumeRef.current
+    }).catch(e => console.error("Failed to save session:", e));
+  }, []);
 
 
   // --- Effects ---
 
-  // Cleanup object URL on unmount
+  // Keep the queue's view of the playlist size current (appends, restores)
   useEffect(() => {
-    return () => {
-      if (currentObjectUrlRef.current) {
-        URL.revokeObjectURL(currentObjectUrlRef.current);
-      }
-    };
+    queue.setLength(playlist.length);
+  }, [playlist, queue]);
+
+  // Load preferences, then restore the previous session. The music folders
+  // have to reach the backend before the restored track is played, even
+  // when the settings can't be read (the defaults apply then).
+  useEffect(() => {
+    let cancelled = false;
+    loadSettings()
+      .catch(e => {
+        console.error("Failed to load settings:", e);
+        return DEFAULT_SETTINGS;
+      })
+      .then(async loaded => {
+        const musicFolders = loaded.musicFolders ?? await defaultMusicFolders();
+        await setMusicFolders(musicFolders);
+        if (cancelled) return;
+        const next = { ...loaded, musicFolders };
+        settingsRef.current = next;
+        setSettings(next);
+        // The window always opens as the full player
+        if (loaded.miniPlayer) {
+          setMiniPlayer(true, loaded.windowBounds.mini).catch(e => console.error("Failed to open the mini player:", e));
+        }
+      })
+      .catch(e => console.error("Failed to set the music folders:", e))
+      .then(loadSession)
+      .then(session => {
+        if (cancelled) return;
+        if (session) {
+          setPlaylists(session.playlists);
+          playlistsRef.current = session.playlists;
+          setViewedId(session.viewedId);
+          setVolume(session.volume);
+          audioEngine.setVolume(session.volume);
+          volumeRef.current = session.volume;
+          const playing = session.playlists.find(p => p.id === session.playingId);
+          if (playing && session.currentIndex !== -1) {
+            setPlayingId(playing.id);
+            playingIdRef.current = playing.id;
+            playlistRef.current = playing.tracks;
+            queue.reset(playing.tracks.length);
+            playTrack(session.currentIndex, playing.tracks, {
+              autoplay: false,
+              startAt: session.currentTime
+            });
+          }
+        }
+      })
+      .catch(e => console.error("Failed to restore session:", e))
+      .finally(() => {
+        if (!cancelled) setSessionLoaded(true);
+      });
+    return () => { cancelled = true; };
   }, []);
 
+  // Save structural changes shortly after they happen...
+  useEffect(() => {
+    if (!sessionLoaded) return;
+    const timer = setTimeout(persistSession, 500);
+    return () => clearTimeout(timer);
+  }, [sessionLoaded, playlists, viewedId, playingId, currentIndex, volume, isPlaying, persistSession]);
+
+  // ...and the playback position periodically while playing, and on the way out
+  useEffect(() => {
+    if (!sessionLoaded || !isPlaying) return;
+    const timer = setInterval(persistSession, 5000);
+    return () => clearInterval(timer);
+  }, [sessionLoaded, isPlaying, persistSession]);
+
+  useEffect(() => {
+    if (!sessionLoaded) return;
+    window.addEventListener("beforeunload", persistSession);
+    return () => window.removeEventListener("beforeunload", persistSession);
+  }, [sessionLoaded, persistSession]);
+
+  useEffect(() => {
+    audioEngine.setCrossfade(settings.crossfadeSeconds);
+  }, [settings.crossfadeSeconds, audioEngine]);
+
+  useEffect(() => {
+    audioEngine.setEqualizer(settings.equalizer);
+  }, [settings.equalizer, audioEngine]);
+
+  useEffect(() => {
+    audioEngine.setReplayGain(settings.replayGain);
+  }, [settings.replayGain, audioEngine]);
+
+  useEffect(() => {
+    audioEngine.setPlaybackRate(playbackRate, settings.preservePitch);
+  }, [playbackRate, settings.preservePitch, audioEngine]);
+
+  useEffect(() => {
+    audioEngine.setLoop(loop && loop.end !== null ? { start: loop.start, end: loop.end } : null);
+  }, [loop, audioEngine]);
+
+  // Loop and speed are set for a particular passage; a new track starts clean
+  const currentTrackId = playlist[currentIndex]?.id;
+  useEffect(() => {
+    setLoop(null);
+    setPlaybackRate(1);
+  }, [currentTrackId]);
+
+  useEffect(() => {
+    endListen(false);
+    beginListen(playlistRef.current[indexRef.current]);
+  }, [currentTrackId, endListen, beginListen]);
+
+  useEffect(() => {
+    loadHistory()
+      .then(loaded => {
+        historyRef.current = loaded;
+        setHistory(loaded);
+      })
+      .catch(e => console.error("Failed to load history:", e));
+  }, []);
+
+  // Load the upcoming track ahead of time so the engine can hand off to it
+  // without a gap. Re-evaluated whenever the queue's answer might change.
+  useEffect(() => {
+    if (!isPlaying || currentIndex === -1) return;
+
+    const nextIndex = queue.peekNext(currentIndex);
+    const nextTrack = nextIndex === null || nextIndex === currentIndex ? undefined : playlist[nextIndex];
+    if (!nextTrack || nextTrack.missing || !isValidAudioFile(nextTrack.path)) {
+      audioEngine.clearPreload();
+      return;
+    }
+    audioEngine.preload(streamUrl(nextTrack.path), nextTrack.replayGain, trackRange(nextTrack));
+  }, [isPlaying, currentIndex, playlist, repeatMode, shuffle, queue, audioEngine]);
+
   useEffect(() => {
     // Audio Engine Handlers
     audioEngine.setHandlers(
-      (time) => setCurrentTime(time),
+      (time) => {
+        setCurrentTime(time);
+        trackListen(time);
+      },
       () => {
         // On Ended
-        const currentPlaylist = playlistRef.current;
+        trackEnded();
         const currentIdx = indexRef.current;
 
         // Validate current index is still valid
-        if (currentIdx < 0 || currentIdx >= currentPlaylist.length) {
+        if (currentIdx < 0 || currentIdx >= playlistRef.current.length) {
           setIsPlaying(false);
           return;
         }
 
-        const nextIndex = currentIdx + 1;
-        if (nextIndex < currentPlaylist.length) {
-          playTrack(nextIndex, currentPlaylist);
-        } else {
-          setIsPlaying(false);
-        }
+        playNext(true);
       },
       (dur) => setDuration(dur)
     );
@@ -313,47 +1242,12 @@ function App() {
     // Initial Drag & Drop Setup
     const setupListener = async () => {
       const { listen } = await import('@tauri-apps/api/event');
-      const { invoke } = await import('@tauri-apps/api/core');
 
-      const unlisten = await listen('tauri://drag-drop', async (event) => {
+      const unlisten = await listen('tauri://drag-drop', (event) => {
         const payload = event.payload as { paths: string[] };
         if (payload.paths && payload.paths.length > 0) {
-
-          // Filter only valid audio files
-          const validPaths = payload.paths.filter(path => isValidAudioFile(path));
-
-          if (validPaths.length === 0) {
-            console.warn("No valid audio files in dropped items");
-            return;
-          }
-
-          // Metadata extraction
-          const newTracks: Track[] = await Promise.all(validPaths.map(async (path) => {
-            const name = path.split(/[\\/]/).pop()?.replace(/\.[^/.]+$/, "") || "Unknown Track";
-            let metadata: AudioMetadata | null = null;
-            try {
-              metadata = await invoke('get_metadata', { path });
-            } catch (e) {
-              console.error("Metadata error:", e);
-            }
-
-            return {
-              path: path,
-              title: metadata?.title || name,
-              artist: metadata?.artist || "Unknown Artist",
-              cover: metadata?.cover,
-              duration: metadata?.duration
-            };
-          }));
-
-          setPlaylist(prev => {
-            const updated = [...prev, ...newTracks];
-            if (prev.length === 0 && updated.length > 0) {
-              // Use queueMicrotask to defer playback until after state update
-              queueMicrotask(() => playTrack(0, updated));
-            }
-            return updated;
-          });
+          // Files and folders alike; the backend filters out non-audio files
+          handleDroppedPaths(payload.paths);
         }
       });
 
@@ -380,56 +1274,248 @@ function App() {
     };
   }, []);
 
-  // Keyboard and Media Shortcuts
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
-
-      // Cmd+A: Select all tracks
-      if ((e.metaKey || e.ctrlKey) && e.code === "KeyA") {
-        e.preventDefault();
-        setSelectedIndices(new Set(playlist.map((_, i) => i)));
-        return;
+  // Keyboard shortcuts. Returns false when the command doesn't apply right
+  // now, so the key keeps its usual meaning (e.g. Backspace with nothing selected).
+  const runCommand = useEventCallback((command: CommandId): boolean => {
+    switch (command) {
+      case "playPause":
+        togglePlay();
+        return true;
+      case "nextTrack":
+        playNext();
+        return true;
+      case "previousTrack":
+        playPrevious();
+        return true;
+      case "seekBack":
+      case "seekForward":
+        seekBy(command === "seekBack" ? -settings.seekStep : settings.seekStep);
+        return true;
+      case "seekBackSecond":
+      case "seekForwardSecond":
+        seekBy(command === "seekBackSecond" ? -SECOND_STEP : SECOND_STEP);
+        return true;
+      case "seekBackFrame":
+      case "seekForwardFrame":
+        seekBy(command === "seekBackFrame" ? -FRAME_STEP : FRAME_STEP);
+        return true;
+      case "volumeUp":
+      case "volumeDown":
+        changeVolume(Math.max(0, Math.min(1, volume + (command === "volumeUp" ? settings.volumeStep : -settings.volumeStep))));
+        return true;
+      case "mute":
+        toggleMute();
+        return true;
+      case "loopStart":
+        setLoopStart();
+        return true;
+      case "loopEnd":
+        setLoopEnd();
+        return true;
+      case "loopClear":
+        clearLoop();
+        return true;
+      case "slower":
+      case "faster":
+        changeRate(command === "slower" ? -RATE_STEP : RATE_STEP);
+        return true;
+      case "normalSpeed":
+        setPlaybackRate(1);
+        return true;
+      case "focusUp":
+      case "focusDown":
+      case "extendUp":
+      case "extendDown":
+        moveFocus(command === "focusUp" || command === "extendUp" ? -1 : 1, command === "extendUp" || command === "extendDown");
+        return true;
+      case "playFocused": {
+        const index = viewedTracks.findIndex(t => t.id === focusedId);
+        if (index === -1) return false;
+        playFromPlaylist(viewedPlaylist.id, viewedTracks, index);
+        return true;
       }
-
-      // Delete or Backspace: Delete selected tracks
-      if (e.code === "Delete" || e.code === "Backspace") {
-        e.preventDefault();
+      case "selectAll":
+        setSelectedIds(new Set(rowTracks.map(t => t.id)));
+        return true;
+      case "deleteSelected":
+        if (selectedIds.size === 0) return false;
         deleteSelectedTracks();
-        return;
+        return true;
+      case "trackInfo": {
+        // The focused row, or the current track
+        const id = focusedId ?? playlist[currentIndex]?.id;
+        if (!id) return false;
+        setInfoTrackId(id);
+        return true;
       }
-
-      switch (e.code) {
-        case "Space":
-          e.preventDefault();
-          togglePlay();
-          break;
-        case "ArrowLeft":
-          audioEngine.seek(currentTime - 5);
-          setCurrentTime(t => t - 5);
-          break;
-        case "ArrowRight":
-          audioEngine.seek(currentTime + 5);
-          setCurrentTime(t => t + 5);
-          break;
-        case "ArrowUp":
-          e.preventDefault();
-          const vUp = Math.min(1, volume + 0.1);
-          setVolume(vUp);
-          audioEngine.setVolume(vUp);
-          break;
-        case "ArrowDown":
-          e.preventDefault();
-          const vDown = Math.max(0, volume - 0.1);
-          setVolume(vDown);
-          audioEngine.setVolume(vDown);
-          break;
+      case "revealInFileManager": {
+        const track = viewedTracks.find(t => t.id === focusedId) ?? playlist[currentIndex];
+        if (!track) return false;
+        revealTrack(track.path);
+        return true;
       }
+      case "filter":
+        filterInputRef.current?.focus();
+        filterInputRef.current?.select();
+        return true;
+      case "addFolder":
+        addFolder();
+        return true;
+      case "showLibrary":
+        setShowLibrary(true);
+        return true;
+      case "toggleLyrics":
+        updateSettings(prev => ({ showLyrics: !prev.showLyrics }));
+        return true;
+      case "toggleMiniPlayer":
+        toggleMiniPlayer();
+        return true;
+      case "showShortcuts":
+        setShowShortcuts(true);
+        return true;
+    }
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      // Panels and dialogs handle their own keys; the mini player doesn't show them
+      if (!settings.miniPlayer && (infoTrackId || showSettings || showHistory || showShortcuts || showLibrary)) return;
+
+      const chord = chordFromEvent(e);
+      const command = chord && commandForChord(keymap, chord);
+      if (command && runCommand(command)) e.preventDefault();
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [volume, currentTime, togglePlay, audioEngine, playlist, deleteSelectedTracks]);
+  }, [keymap, settings.miniPlayer, infoTrackId, showSettings, showHistory, showShortcuts, showLibrary, runCommand]);
+
+  // Remember where the window is left in each mode
+  useEffect(() => {
+    let cleanup: (() => void) | undefined;
+    let isMounted = true;
+
+    watchWindowBounds(bounds => updateSettings(prev => ({
+      windowBounds: { ...prev.windowBounds, [prev.miniPlayer ? "mini" : "full"]: bounds }
+    })))
+      .then(c => {
+        if (isMounted) {
+          cleanup = c;
+        } else {
+          c();
+        }
+      })
+      .catch(e => console.error("Failed to watch the window:", e));
+
+    return () => {
+      isMounted = false;
+      if (cleanup) cleanup();
+    };
+  }, [updateSettings]);
+
+  // The library indexes the music folders in the background
+  useEffect(() => {
+    libraryStatus().then(setLibrary).catch(e => console.error("Failed to read library status:", e));
+
+    const setupListener = async () => {
+      const { listen } = await import('@tauri-apps/api/event');
+      const unlisten = await listen<LibraryStatus>(LIBRARY_EVENT, (event) => setLibrary(event.payload));
+      return () => {
+        unlisten();
+      };
+    };
+
+    let cleanup: (() => void) | undefined;
+    let isMounted = true;
+    setupListener().then(c => {
+      if (isMounted) cleanup = c;
+      else c();
+    });
+    return () => {
+      isMounted = false;
+      if (cleanup) cleanup();
+    };
+  }, []);
+
+  // Add library tracks to the viewed playlist; when nothing is playing,
+  // playback starts with the first of them
+  const queueTracks = useEventCallback((tracks: Track[]) => {
+    const targetId = viewedIdRef.current;
+    const target = playlistsRef.current.find(p => p.id === targetId);
+    if (!target || tracks.length === 0) return;
+    const updated = [...target.tracks, ...tracks];
+    setPlaylists(prev => updatePlaylistTracks(prev, targetId, () => updated));
+    if (!isPlaying) playFromPlaylist(targetId, updated, target.tracks.length);
+  });
+
+  const closeLibrary = useCallback(() => setShowLibrary(false), []);
+
+  const rescan = useCallback(async () => {
+    try {
+      await rescanLibrary();
+    } catch (e) {
+      const errorMsg = "Failed to rescan the library";
+      console.error(errorMsg, e);
+      setErrorMessage(errorMsg);
+      setTimeout(() => setErrorMessage(null), 3000);
+    }
+  }, []);
+
+  // Global shortcuts and the tray menu send commands from the backend
+  useEffect(() => {
+    const setupListeners = async () => {
+      const { listen } = await import('@tauri-apps/api/event');
+      const unlistenCommand = await listen<string>(COMMAND_EVENT, (event) => {
+        if (isCommandId(event.payload)) runCommand(event.payload);
+      });
+      const unlistenKeepPlaying = await listen<boolean>(KEEP_PLAYING_EVENT, (event) => {
+        updateSettings({ keepPlayingWhenClosed: event.payload });
+      });
+      return () => {
+        unlistenCommand();
+        unlistenKeepPlaying();
+      };
+    };
+
+    let cleanup: (() => void) | undefined;
+    let isMounted = true;
+    setupListeners().then(c => {
+      if (isMounted) cleanup = c;
+      else c();
+    });
+    return () => {
+      isMounted = false;
+      if (cleanup) cleanup();
+    };
+  }, [runCommand, updateSettings]);
+
+  useEffect(() => {
+    if (!sessionLoaded) return;
+    setGlobalShortcuts(settings.globalShortcuts)
+      .then(failed => {
+        setUnavailableGlobal(failed);
+        if (failed.length > 0) {
+          const errorMsg = `${failed.map(formatChord).join(", ")} ${failed.length === 1 ? "is" : "are"} already used by another app`;
+          setErrorMessage(errorMsg);
+          setTimeout(() => setErrorMessage(null), 3000);
+        }
+      })
+      .catch(e => console.error("Failed to register global shortcuts:", e));
+  }, [sessionLoaded, settings.globalShortcuts]);
+
+  useEffect(() => {
+    if (!sessionLoaded) return;
+    setKeepPlaying(settings.keepPlayingWhenClosed)
+      .catch(e => console.error("Failed to update the tray:", e));
+  }, [sessionLoaded, settings.keepPlayingWhenClosed]);
+
+  const trayTitle = playlist[currentIndex]?.title ?? null;
+  const trayArtist = playlist[currentIndex]?.artist || null;
+  useEffect(() => {
+    updateTray(trayTitle, trayArtist, isPlaying)
+      .catch(e => console.error("Failed to update the tray:", e));
+  }, [trayTitle, trayArtist, isPlaying]);
 
   // Media Session API
   useEffect(() => {
@@ -440,6 +1526,7 @@ function App() {
       navigator.mediaSession.metadata = new MediaMetadata({
         title: track.title,
         artist: track.artist || "Unknown Artist",
+        album: track.album || "",
         artwork: track.cover ? [{ src: track.cover, sizes: '512x512', type: 'image/jpeg' }] : []
       });
     }
@@ -452,12 +1539,8 @@ function App() {
       audioEngine.pause();
       setIsPlaying(false);
     });
-    navigator.mediaSession.setActionHandler('previoustrack', () => {
-      if (currentIndex > 0) playTrack(currentIndex - 1);
-    });
-    navigator.mediaSession.setActionHandler('nexttrack', () => {
-      if (currentIndex < playlist.length - 1) playTrack(currentIndex + 1);
-    });
+    navigator.mediaSession.setActionHandler('previoustrack', () => playPrevious());
+    navigator.mediaSession.setActionHandler('nexttrack', () => playNext());
     navigator.mediaSession.setActionHandler('seekto', (details) => {
       if (details.seekTime !== undefined) {
         audioEngine.seek(details.seekTime);
@@ -465,17 +1548,96 @@ function App() {
       }
     });
 
-  }, [currentIndex, playlist, isPlaying]);
+  }, [currentIndex, playlist, isPlaying, playNext, playPrevious]);
 
 
   const currentTrack = playlist[currentIndex] || { title: "MinPlayer", artist: "Drop files to play" };
 
+  if (settings.miniPlayer) {
+    return (
+      <div className="app-container">
+        {errorMessage && (
+          <div className="error-message">
+            {errorMessage}
+          </div>
+        )}
+        <MiniPlayer
+          title={currentTrack.title}
+          artist={currentTrack.artist}
+          cover={currentTrack.cover}
+          isPlaying={isPlaying}
+          currentTime={currentTime}
+          duration={duration}
+          formatTime={formatTime}
+          onTogglePlay={togglePlay}
+          onNext={() => playNext()}
+          onPrevious={() => playPrevious()}
+          onSeek={handleSeek}
+          onExpand={toggleMiniPlayer}
+          expandTitle={withShortcut("Full player", keymap.toggleMiniPlayer)}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="app-container">
       <header className="titlebar" data-tauri-drag-region>
         <span>MinPlayer</span>
+        <div className="titlebar-actions">
+          <button
+            className={`titlebar-btn ${settings.showSidebar ? 'active' : ''}`}
+            onClick={() => updateSettings(prev => ({ showSidebar: !prev.showSidebar }))}
+            title="Playlists"
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="3" width="18" height="18" rx="2" /><line x1="9" y1="3" x2="9" y2="21" /></svg>
+          </button>
+          <button className="titlebar-btn" onClick={toggleMiniPlayer} title={withShortcut("Mini Player", keymap.toggleMiniPlayer)}>
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="4 14 10 14 10 20" /><polyline points="20 10 14 10 14 4" /><line x1="14" y1="10" x2="21" y2="3" /><line x1="3" y1="21" x2="10" y2="14" /></svg>
+          </button>
+          <button
+            className={`titlebar-btn ${settings.showLyrics ? 'active' : ''}`}
+            onClick={() => updateSettings(prev => ({ showLyrics: !prev.showLyrics }))}
+            title={withShortcut("Lyrics", keymap.toggleLyrics)}
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="4" y1="6" x2="20" y2="6" /><line x1="4" y1="12" x2="14" y2="12" /><line x1="4" y1="18" x2="11" y2="18" /><circle cx="18" cy="17" r="2" /><line x1="20" y1="17" x2="20" y2="10" /></svg>
+          </button>
+          <button
+            className={`titlebar-btn ${settings.visualizer !== 'off' ? 'active' : ''}`}
+            onClick={cycleVisualizer}
+            title={`Visualizer: ${VISUALIZER_MODES.find(m => m.id === settings.visualizer)?.label}`}
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="4" y1="20" x2="4" y2="12" /><line x1="9" y1="20" x2="9" y2="6" /><line x1="14" y1="20" x2="14" y2="10" /><line x1="19" y1="20" x2="19" y2="4" /></svg>
+          </button>
+          <button className="titlebar-btn" onClick={addFolder} title={withShortcut("Add Folder…", keymap.addFolder)}>
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z" /><line x1="12" y1="11" x2="12" y2="17" /><line x1="9" y1="14" x2="15" y2="14" /></svg>
+          </button>
+          <PlaylistMenu
+            canExport={viewedTracks.length > 0}
+            relativePaths={settings.exportRelativePaths}
+            onAddFolder={addFolder}
+            onImportPlaylist={importPlaylist}
+            onExportM3U={() => exportPlaylist("m3u8")}
+            onExportPLS={() => exportPlaylist("pls")}
+            onRelativePathsChange={(exportRelativePaths) => updateSettings({ exportRelativePaths })}
+            onOpenSettings={() => setShowSettings(true)}
+            onShowLibrary={() => setShowLibrary(true)}
+            onShowHistory={() => setShowHistory(true)}
+            onShowShortcuts={() => setShowShortcuts(true)}
+          />
+        </div>
       </header>
 
+      {/* Import Progress */}
+      {importProgress && (
+        <div className="import-progress">
+          <span>Importing {importProgress.done} / {importProgress.total}</span>
+          <div className="import-progress-bar">
+            <div style={{ width: `${(importProgress.done / Math.max(1, importProgress.total)) * 100}%` }} />
+          </div>
+        </div>
+      )}
+
       {/* Error Message */}
       {errorMessage && (
         <div className="error-message">
@@ -498,10 +1660,23 @@ function App() {
           <h2 className="artist">{currentTrack.artist}</h2>
         </div>
 
+        <Visualizer
+          analysers={audioEngine.getAnalysers()}
+          mode={settings.visualizer}
+          active={isPlaying}
+          onClick={cycleVisualizer}
+        />
+
         <div className="controls">
-          <button className="control-btn" onClick={() => {
-            if (currentIndex > 0) playTrack(currentIndex - 1);
-          }}>
+          <button
+            className={`control-btn toggle-btn ${shuffle ? 'active' : ''}`}
+            onClick={toggleShuffle}
+            title={shuffle ? "Shuffle on" : "Shuffle off"}
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="16 3 21 3 21 8" /><line x1="4" y1="20" x2="21" y2="3" /><polyline points="21 16 21 21 16 21" /><line x1="15" y1="15" x2="21" y2="21" /><line x1="4" y1="4" x2="9" y2="9" /></svg>
+          </button>
+
+          <button className="control-btn" onClick={() => playPrevious()}>
             <svg width="24" height="24" viewBox="0 0 24 24" fill="currentColor"><polygon points="19 20 9 12 19 4 19 20"></polygon><line x1="5" y1="19" x2="5" y2="5" stroke="currentColor" strokeWidth="2"></line></svg>
           </button>
 
@@ -513,54 +1688,190 @@ function App() {
             )}
           </button>
 
-          <button className="control-btn" onClick={() => {
-            if (currentIndex < playlist.length - 1) playTrack(currentIndex + 1);
-          }}>
+          <button className="control-btn" onClick={() => playNext()}>
             <svg width="24" height="24" viewBox="0 0 24 24" fill="currentColor"><polygon points="5 4 15 12 5 20 5 4"></polygon><line x1="19" y1="5" x2="19" y2="19" stroke="currentColor" strokeWidth="2"></line></svg>
           </button>
+
+          <button
+            className={`control-btn toggle-btn ${repeatMode !== 'off' ? 'active' : ''}`}
+            onClick={cycleRepeatMode}
+            title={repeatMode === 'off' ? "Repeat off" : repeatMode === 'all' ? "Repeat all" : "Repeat one"}
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="17 1 21 5 17 9" /><path d="M3 11V9a4 4 0 0 1 4-4h14" /><polyline points="7 23 3 19 7 15" /><path d="M21 13v2a4 4 0 0 1-4 4H3" /></svg>
+            {repeatMode === 'one' && <span className="repeat-one-badge">1</span>}
+          </button>
         </div>
 
         <div className="progress-bar">
           <span className="time-curr">{formatTime(currentTime)}</span>
-          <input
-            type="range"
-            min="0"
-            max={duration || 100}
-            value={currentTime}
-            onChange={handleSeek}
-            className="time-slider"
+          <WaveformSeekBar
+            path={playlist[currentIndex]?.path ?? null}
+            start={playlist[currentIndex]?.start}
+            end={playlist[currentIndex]?.end}
+            currentTime={currentTime}
+            duration={duration}
+            formatTime={formatTime}
+            onSeek={handleSeek}
+            keyStep={settings.seekStep}
+            loop={loop}
+            onLoopChange={setLoop}
           />
           <span className="time-rem">{formatRemaining(currentTime, duration)}</span>
         </div>
+
+        <div className="transport-extras">
+          <div className="rate-control">
+            <button className="eq-text-btn" onClick={() => changeRate(-RATE_STEP)} title={withShortcut("Slower", keymap.slower)}>−</button>
+            <button
+              className={`eq-text-btn rate-value ${playbackRate !== 1 ? 'active' : ''}`}
+              onClick={() => setPlaybackRate(1)}
+              title={withShortcut("Playback speed; click to reset", keymap.normalSpeed)}
+            >
+              {formatRate(playbackRate)}
+            </button>
+            <button className="eq-text-btn" onClick={() => changeRate(RATE_STEP)} title={withShortcut("Faster", keymap.faster)}>+</button>
+            <label className="rate-pitch" title="Keep the original pitch when changing speed">
+              <input
+                type="checkbox"
+                checked={settings.preservePitch}
+                onChange={(e) => updateSettings({ preservePitch: e.target.checked })}
+              />
+              Keep pitch
+            </label>
+          </div>
+          <div className="loop-control">
+            <button className="eq-text-btn" onClick={setLoopStart} title={withShortcut("Set loop start here", keymap.loopStart)}>A</button>
+            <button className="eq-text-btn" onClick={setLoopEnd} title={withShortcut("Set loop end here", keymap.loopEnd)}>B</button>
+            {loop && (
+              <>
+                <span className={`loop-range ${loop.end !== null ? 'active' : ''}`}>
+                  {formatTime(loop.start)} – {loop.end !== null ? formatTime(loop.end) : "…"}
+                </span>
+                <button className="eq-text-btn" onClick={clearLoop} title={withShortcut("Clear loop", keymap.loopClear)}>✕</button>
+              </>
+            )}
+          </div>
+        </div>
       </section>
 
       {/* Playlist Section */}
       <section className="playlist-section">
-        <div className="playlist-header">
-          <div className="col-idx">#</div>
-          <div className="col-title">Title</div>
-          <div className="col-dur">Duration</div>
-        </div>
-
-        <div className="playlist-content">
-          {playlist.map((track, i) => (
-            <PlaylistItem
-              key={i}
-              track={track}
-              index={i}
-              isActive={i === currentIndex}
-              isPlaying={isPlaying}
-              isSelected={selectedIndices.has(i)}
-              formatTime={formatTime}
-              onClick={(e) => handlePlaylistItemClick(i, e)}
+        {settings.showSidebar && (
+          <PlaylistSidebar
+            playlists={playlists}
+            viewedId={viewedPlaylist.id}
+            playingId={playingId}
+            isPlaying={isPlaying}
+            onSelect={selectPlaylist}
+            onCreate={createNewPlaylist}
+            onRename={renamePlaylist}
+            onDuplicate={duplicatePlaylistById}
+            onDelete={deletePlaylist}
+            onDropTracks={copyTracksToPlaylist}
+          />
+        )}
+        {settings.showLyrics ? (
+          <LyricsPanel track={playlist[currentIndex] ?? null} currentTime={currentTime} onSeek={handleSeek} />
+        ) : (
+          <div className="playlist-main">
+            <PlaylistHeader
+              columns={settings.playlistColumns}
+              sort={sort}
+              filter={filter}
+              filterRef={filterInputRef}
+              onSort={handleSort}
+              onFilterChange={setFilter}
+              onColumnsChange={(playlistColumns) => updateSettings({ playlistColumns })}
+              onApplySort={applySort}
             />
-          ))}
-          {playlist.length === 0 && (
-            <div className="empty-state">Drag & Drop files here</div>
-          )}
-        </div>
+
+            {rows.length > 0 ? (
+              <TrackList
+                rows={rows}
+                activeIndex={viewingPlaying ? currentIndex : -1}
+                isPlaying={isPlaying}
+                selectedIds={selectedIds}
+                focusedId={focusedId}
+                dropIndex={dropIndex}
+                trackCount={viewedTracks.length}
+                columns={settings.playlistColumns}
+                formatTime={formatTime}
+                onRowClick={onRowClick}
+                onRowDragStart={onRowDragStart}
+                onRowContextMenu={onRowContextMenu}
+                onDragOver={onListDragOver}
+                onDragLeave={onListDragLeave}
+                onDrop={onListDrop}
+                onDragEnd={onListDragEnd}
+              />
+            ) : (
+              <div className="playlist-content">
+                {viewedTracks.length > 0 ? (
+                  <div className="empty-state">No tracks match “{filter}”</div>
+                ) : (
+                  <div className="empty-state">
+                    Drag & Drop files or folders here
+                    <br />
+                    <button className="empty-state-btn" onClick={addFolder}>Add Folder…</button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
       </section>
 
+      {infoTrack && (
+        <TrackInfoPanel
+          track={infoTrack}
+          formatTime={formatTime}
+          onSave={(tags) => saveTags(infoTrack.path, tags)}
+          onPickCover={pickCoverImage}
+          stats={history.stats[trackKey(infoTrack)]}
+          onClose={closeTrackInfo}
+        />
+      )}
+
+      {showLibrary && (
+        <LibraryPanel status={library} onQueue={queueTracks} onClose={closeLibrary} />
+      )}
+
+      {showHistory && (
+        <HistoryPanel
+          history={history}
+          onPlay={playFromHistory}
+          onShowScrobbleLog={showScrobbleLog}
+          onClose={closeHistory}
+        />
+      )}
+
+      {showShortcuts && (
+        <ShortcutsPanel
+          keymap={keymap}
+          seekStep={settings.seekStep}
+          volumeStep={settings.volumeStep}
+          onKeymapChange={updateKeymap}
+          globalShortcuts={settings.globalShortcuts}
+          unavailableGlobal={unavailableGlobal}
+          onGlobalShortcutsChange={updateGlobalShortcuts}
+          onStepsChange={updateSettings}
+          onClose={closeShortcuts}
+        />
+      )}
+
+      {showSettings && (
+        <SettingsPanel
+          musicFolders={settings.musicFolders ?? []}
+          onAddMusicFolder={addMusicFolder}
+          onRemoveMusicFolder={removeMusicFolder}
+          library={library}
+          onRescanLibrary={rescan}
+          keepPlayingWhenClosed={settings.keepPlayingWhenClosed}
+          onKeepPlayingChange={(keepPlayingWhenClosed) => updateSettings({ keepPlayingWhenClosed })}
+          onClose={closeSettings}
+        />
+      )}
+
       {/* Bottom Footer Bar */}
       <footer className="bottom-bar">
         <div className="footer-left">
@@ -588,8 +1899,7 @@ function App() {
             value={volume}
             onChange={(e) => {
               const v = parseFloat(e.target.value);
-              setVolume(v);
-              audioEngine.setVolume(v);
+              changeVolume(v);
               // Update slider background
               const percent = v * 100;
               e.target.style.background = `linear-gradient(to right, #fca311 0%, #fca311 ${percent}%, #444 ${percent}%, #444 100%)`;
@@ -599,9 +1909,39 @@ function App() {
               background: `linear-gradient(to right, #fca311 0%, #fca311 ${volume * 100}%, #444 ${volume * 100}%, #444 100%)`
             }}
           />
+          <button
+            className={`eq-btn ${settings.equalizer.enabled ? 'active' : ''} ${showEq ? 'open' : ''}`}
+            onClick={() => setShowEq(v => !v)}
+            title="Equalizer"
+          >
+            EQ
+          </button>
         </div>
+        {showEq && (
+          <EqualizerPanel
+            eq={settings.equalizer}
+            customPresets={settings.customEqPresets}
+            onChange={setEqualizer}
+            onSavePreset={saveEqPreset}
+            onDeletePreset={deleteEqPreset}
+            replayGain={settings.replayGain}
+            onReplayGainChange={setReplayGain}
+            onClose={() => setShowEq(false)}
+          />
+        )}
+        <select
+          className="footer-select"
+          value={settings.crossfadeSeconds}
+          onChange={(e) => updateSettings({ crossfadeSeconds: parseFloat(e.target.value) })}
+          title="Transition between tracks"
+        >
+          <option value={0}>Gapless</option>
+          {[2, 4, 6, 8, 12].map(sec => (
+            <option key={sec} value={sec}>Fade {sec}s</option>
+          ))}
+        </select>
         <div className="footer-right">
-          {playlist.length} tracks, {formatTime(playlist.reduce((acc, t) => acc + (t.duration || 0), 0))}
+          {viewedTracks.length} tracks, {formatTime(viewedTotalDuration)}
         </div>
       </footer>
     </div>
@@ -0,0 +1,192 @@
+import { useState } from "react";
+import {
+  BUILTIN_PRESETS,
+  EQ_FREQUENCIES,
+  EQ_MAX_GAIN,
+  EQ_MIN_GAIN,
+  EqPreset,
+  EqState,
+  formatFrequency,
+  isBuiltinPreset
+} from "../utils/equalizer";
+import { ReplayGainMode, ReplayGainSettings } from "../utils/replayGain";
+
+interface EqualizerPanelProps {
+  eq: EqState;
+  customPresets: EqPreset[];
+  onChange: (eq: EqState) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (name: string) => void;
+  replayGain: ReplayGainSettings;
+  onReplayGainChange: (settings: ReplayGainSettings) => void;
+  onClose: () => void;
+}
+
+const formatGain = (db: number) => `${db > 0 ? "+" : ""}${db.toFixed(1)} dB`;
+
+export function EqualizerPanel({
+  eq,
+  customPresets,
+  onChange,
+  onSavePreset,
+  onDeletePreset,
+  replayGain,
+  onReplayGainChange,
+  onClose
+}: EqualizerPanelProps) {
+  const [presetName, setPresetName] = useState("");
+  const allPresets = [...BUILTIN_PRESETS, ...customPresets];
+
+  const applyPreset = (name: string) => {
+    const preset = allPresets.find(p => p.name === name);
+    if (!preset) return;
+    onChange({ ...eq, enabled: true, preset: preset.name, preamp: preset.preamp, bands: [...preset.bands] });
+  };
+
+  const setBand = (index: number, value: number) => {
+    const bands = [...eq.bands];
+    bands[index] = value;
+    onChange({ ...eq, preset: null, bands });
+  };
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name || isBuiltinPreset(name)) return;
+    onSavePreset(name);
+    setPresetName("");
+  };
+
+  return (
+    <div className="eq-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="eq-toolbar">
+        <label className="eq-toggle">
+          <input
+            type="checkbox"
+            checked={eq.enabled}
+            onChange={(e) => onChange({ ...eq, enabled: e.target.checked })}
+          />
+          EQ
+        </label>
+        <select
+          className="footer-select"
+          value={eq.preset ?? ""}
+          onChange={(e) => applyPreset(e.target.value)}
+        >
+          {eq.preset === null && <option value="">Custom</option>}
+          {BUILTIN_PRESETS.map(p => (
+            <option key={p.name} value={p.name}>{p.name}</option>
+          ))}
+          {customPresets.length > 0 && (
+            <optgroup label="Saved">
+              {customPresets.map(p => (
+                <option key={p.name} value={p.name}>{p.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        {eq.preset !== null && !isBuiltinPreset(eq.preset) && (
+          <button className="eq-text-btn" onClick={() => onDeletePreset(eq.preset!)} title="Delete preset">
+            Delete
+          </button>
+        )}
+        <button className="eq-text-btn eq-close" onClick={onClose} title="Close">✕</button>
+      </div>
+
+      <div className={`eq-sliders ${eq.enabled ? "" : "disabled"}`}>
+        <div className="eq-band eq-preamp" title={`Preamp ${formatGain(eq.preamp)}`}>
+          <input
+            type="range"
+            min={EQ_MIN_GAIN}
+            max={EQ_MAX_GAIN}
+            step={0.5}
+            value={eq.preamp}
+            onChange={(e) => onChange({ ...eq, preset: null, preamp: parseFloat(e.target.value) })}
+            onDoubleClick={() => onChange({ ...eq, preset: null, preamp: 0 })}
+          />
+          <span>Pre</span>
+        </div>
+        {EQ_FREQUENCIES.map((freq, i) => (
+          <div className="eq-band" key={freq} title={`${formatFrequency(freq)}Hz ${formatGain(eq.bands[i])}`}>
+            <input
+              type="range"
+              min={EQ_MIN_GAIN}
+              max={EQ_MAX_GAIN}
+              step={0.5}
+              value={eq.bands[i]}
+              onChange={(e) => setBand(i, parseFloat(e.target.value))}
+              onDoubleClick={() => setBand(i, 0)}
+            />
+            <span>{formatFrequency(freq)}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="eq-save">
+        <input
+          type="text"
+          placeholder="Preset name"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === "Enter") savePreset(); }}
+        />
+        <button
+          className="eq-text-btn"
+          onClick={savePreset}
+          disabled={!presetName.trim() || isBuiltinPreset(presetName.trim())}
+        >
+          Save
+        </button>
+      </div>
+
+      <div className="rg-controls">
+        <label>
+          ReplayGain
+          <select
+            className="footer-select"
+            value={replayGain.mode}
+            onChange={(e) => onReplayGainChange({ ...replayGain, mode: e.target.value as ReplayGainMode })}
+          >
+            <option value="off">Off</option>
+            <option value="track">Track</option>
+            <option value="album">Album</option>
+          </select>
+        </label>
+        <label title="Prevent clipping using the tagged peak level">
+          <input
+            type="checkbox"
+            checked={replayGain.preventClipping}
+            disabled={replayGain.mode === "off"}
+            onChange={(e) => onReplayGainChange({ ...replayGain, preventClipping: e.target.checked })}
+          />
+          No clip
+        </label>
+        <label title="Gain for tagged files">
+          Pre-amp
+          <input
+            type="range"
+            min={EQ_MIN_GAIN}
+            max={EQ_MAX_GAIN}
+            step={0.5}
+            value={replayGain.preamp}
+            disabled={replayGain.mode === "off"}
+            onChange={(e) => onReplayGainChange({ ...replayGain, preamp: parseFloat(e.target.value) })}
+          />
+          <span className="rg-value">{formatGain(replayGain.preamp)}</span>
+        </label>
+        <label title="Gain for files without ReplayGain tags">
+          Untagged
+          <input
+            type="range"
+            min={EQ_MIN_GAIN}
+            max={EQ_MAX_GAIN}
+            step={0.5}
+            value={replayGain.fallbackPreamp}
+            disabled={replayGain.mode === "off"}
+            onChange={(e) => onReplayGainChange({ ...replayGain, fallbackPreamp: parseFloat(e.target.value) })}
+          />
+          <span className="rg-value">{formatGain(replayGain.fallbackPreamp)}</span>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useEffect, useMemo, useState } from "react";
+import { History, mostPlayed, parseTrackKey } from "../utils/history";
+
+interface HistoryPanelProps {
+  history: History;
+  // Play a track from the history, by file and start in it
+  onPlay: (path: string, start?: number) => void;
+  onShowScrobbleLog: () => void;
+  onClose: () => void;
+}
+
+type HistoryView = "recent" | "most";
+
+// Rows shown per view; the history itself keeps more
+const VIEW_LIMIT = 200;
+
+const formatPlayedAt = (ms?: number) =>
+  ms ? new Date(ms).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" }) : "";
+
+export function HistoryPanel({ history, onPlay, onShowScrobbleLog, onClose }: HistoryPanelProps) {
+  const [view, setView] = useState<HistoryView>("recent");
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [onClose]);
+
+  const top = useMemo(() => mostPlayed(history).slice(0, VIEW_LIMIT), [history]);
+
+  return (
+    <div className="modal-backdrop" onMouseDown={onClose}>
+      <div className="track-info history-panel" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="track-info-header">
+          <span>History</span>
+          <button className="eq-text-btn" onClick={onClose} title="Close">✕</button>
+        </div>
+
+        <div className="history-tabs">
+          <button className={`eq-text-btn ${view === "recent" ? "primary" : ""}`} onClick={() => setView("recent")}>
+            Recently Played
+          </button>
+          <button className={`eq-text-btn ${view === "most" ? "primary" : ""}`} onClick={() => setView("most")}>
+            Most Played
+          </button>
+        </div>
+
+        <ul className="history-list" title="Double-click to play">
+          {view === "recent" && history.plays.slice(0, VIEW_LIMIT).map(play => (
+            <li key={`${play.playedAt}-${play.path}`} onDoubleClick={() => onPlay(play.path, play.start)}>
+              <span className="history-title">{play.title}{play.artist ? ` — ${play.artist}` : ""}</span>
+              <span className="history-meta">{formatPlayedAt(play.playedAt)}</span>
+            </li>
+          ))}
+          {view === "most" && top.map(([key, stats]) => (
+            <li key={key} onDoubleClick={() => { const { path, start } = parseTrackKey(key); onPlay(path, start); }}>
+              <span className="history-title">{stats.title}{stats.artist ? ` — ${stats.artist}` : ""}</span>
+              <span className="history-meta">
+                {stats.plays} {stats.plays === 1 ? "play" : "plays"}
+                {stats.skips > 0 && `, ${stats.skips} ${stats.skips === 1 ? "skip" : "skips"}`}
+              </span>
+            </li>
+          ))}
+          {(view === "recent" ? history.plays.length : top.length) === 0 && (
+            <li className="settings-empty">Nothing played yet</li>
+          )}
+        </ul>
+
+        <div className="track-info-actions">
+          <button className="eq-text-btn" onClick={onShowScrobbleLog} title="Plays waiting to be submitted by a scrobbling tool">
+            Show Scrobble Log
+          </button>
+          <button className="eq-text-btn primary" onClick={onClose}>Done</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { Track } from "../types";
+import { thumbnailUrl } from "../utils/importer";
+import { AlbumSummary, ArtistSummary, LibraryStatus, listAlbums, listArtists, listTracks } from "../utils/library";
+
+interface LibraryPanelProps {
+  // Refetched whenever the library changes
+  status: LibraryStatus;
+  // Add tracks to the viewed playlist, in the order given
+  onQueue: (tracks: Track[]) => void;
+  onClose: () => void;
+}
+
+type LibraryView = "albums" | "artists";
+
+const formatAlbumLength = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)} h ${minutes % 60} min` : `${minutes} min`;
+};
+
+/**
+ * Albums as a grid of covers, and artists as a list leading to their
+ * albums. Grouping follows the album and album artist tags; double-clicking
+ * an album queues it in disc and track order.
+ */
+export function LibraryPanel({ status, onQueue, onClose }: LibraryPanelProps) {
+  const [view, setView] = useState<LibraryView>("albums");
+  const [artists, setArtists] = useState<ArtistSummary[]>([]);
+  const [albums, setAlbums] = useState<AlbumSummary[]>([]);
+  // Artist whose albums are shown, from the artist list
+  const [artist, setArtist] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [onClose]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = view === "artists" && !artist
+      ? listArtists().then(result => { if (!cancelled) setArtists(result); })
+      : listAlbums(artist ?? undefined).then(result => { if (!cancelled) setAlbums(result); });
+    load.catch(e => console.error("Failed to read the library:", e));
+    return () => { cancelled = true; };
+  }, [view, artist, status]);
+
+  const queue = (query: { artist?: string; album?: string }) => {
+    listTracks(query)
+      .then(onQueue)
+      .catch(e => console.error("Failed to read the library:", e));
+  };
+
+  const showView = (next: LibraryView) => {
+    setView(next);
+    setArtist(null);
+  };
+
+  const empty = status.scanning ? "Scanning your music folders…" : "No music found in your music folders";
+
+  return (
+    <div className="modal-backdrop" onMouseDown={onClose}>
+      <div className="track-info library-panel" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="track-info-header">
+          <span>Library</span>
+          <button className="eq-text-btn" onClick={onClose} title="Close">✕</button>
+        </div>
+
+        <div className="history-tabs">
+          <button className={`eq-text-btn ${view === "albums" ? "primary" : ""}`} onClick={() => showView("albums")}>
+            Albums
+          </button>
+          <button className={`eq-text-btn ${view === "artists" ? "primary" : ""}`} onClick={() => showView("artists")}>
+            Artists
+          </button>
+          {artist && (
+            <button className="eq-text-btn library-back" onClick={() => setArtist(null)} title="Back to artists">
+              ‹ {artist}
+            </button>
+          )}
+        </div>
+
+        {view === "artists" && !artist ? (
+          <ul className="history-list library-artists">
+            {artists.map(a => (
+              <li key={a.name} onClick={() => setArtist(a.name)}>
+                <span className="history-title">{a.name}</span>
+                <span className="history-meta">
+                  {a.albums} {a.albums === 1 ? "album" : "albums"}, {a.tracks} {a.tracks === 1 ? "track" : "tracks"}
+                </span>
+              </li>
+            ))}
+            {artists.length === 0 && <li className="settings-empty">{empty}</li>}
+          </ul>
+        ) : (
+          <div className="album-grid" title="Double-click to add to the playlist">
+            {albums.map(album => (
+              <div
+                key={`${album.artist}\u0000${album.title}`}
+                className="album-tile"
+                onDoubleClick={() => queue({ artist: album.artist, album: album.title })}
+              >
+                <div className="album-tile-cover">
+                  {album.thumbnail ? (
+                    <img src={thumbnailUrl(album.thumbnail)} alt="" loading="lazy" draggable={false} />
+                  ) : (
+                    <svg width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10" /><circle cx="12" cy="12" r="3" /></svg>
+                  )}
+                </div>
+                <span className="album-tile-title" title={album.title}>{album.title}</span>
+                <span className="album-tile-meta" title={album.artist}>
+                  {artist ? album.year ?? "" : album.artist}
+                </span>
+                <span className="album-tile-meta">
+                  {album.tracks} {album.tracks === 1 ? "track" : "tracks"} · {formatAlbumLength(album.duration)}
+                </span>
+              </div>
+            ))}
+            {albums.length === 0 && <div className="settings-empty">{empty}</div>}
+          </div>
+        )}
+
+        <div className="track-info-actions">
+          {artist && (
+            <button className="eq-text-btn" onClick={() => queue({ artist })}>Add All by {artist}</button>
+          )}
+          <button className="eq-text-btn primary" onClick={onClose}>Done</button>
+        </div>
+      </div>
+    </div>
+  );
+}
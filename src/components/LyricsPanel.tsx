@@ -0,0 +1,130 @@
+import { useEffect, useRef, useState } from "react";
+import { Track } from "../types";
+import { LyricOffsets, Lyrics, activeLine, loadLyricOffsets, loadLyrics, saveLyricOffsets } from "../utils/lyrics";
+import { trackKey } from "../utils/playlists";
+
+interface LyricsPanelProps {
+  // Current track, or null when nothing is loaded
+  track: Track | null;
+  // Position in the track, as reported by the engine
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+// Seconds per press of the offset buttons
+const OFFSET_STEP = 0.25;
+// After the user scrolls the lyrics themselves, auto-scroll waits this long
+const MANUAL_SCROLL_MS = 4000;
+
+const formatOffset = (offset: number) => `${offset > 0 ? "+" : offset < 0 ? "−" : ""}${Math.abs(offset).toFixed(2)} s`;
+
+/**
+ * Lyrics of the current track in place of the track list. Synced lyrics
+ * follow playback, highlighting and scrolling to the line being sung, and
+ * a click on a line seeks to it; unsynced ones are shown as plain text.
+ */
+export function LyricsPanel({ track, currentTime, onSeek }: LyricsPanelProps) {
+  const [lyrics, setLyrics] = useState<Lyrics | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [offsets, setOffsets] = useState<LyricOffsets>({});
+  const activeRef = useRef<HTMLLIElement>(null);
+  const manualScrollRef = useRef(0);
+
+  const path = track?.path ?? null;
+  // Tracks of a CUE sheet share a file (and its lyrics) but each has its own offset
+  const key = track ? trackKey(track) : null;
+
+  useEffect(() => {
+    loadLyricOffsets()
+      .then(setOffsets)
+      .catch(e => console.error("Failed to load lyric offsets:", e));
+  }, []);
+
+  useEffect(() => {
+    setLyrics(null);
+    if (!path) return;
+    let cancelled = false;
+    setLoading(true);
+    loadLyrics(path)
+      .then(result => { if (!cancelled) setLyrics(result); })
+      .catch(e => console.error("Failed to read lyrics:", e))
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [path]);
+
+  // Lines are timed from the start of the file, which for a track from a
+  // CUE sheet isn't where the track starts
+  const trackStart = track?.start ?? 0;
+  const offset = key ? offsets[key] ?? 0 : 0;
+  const lines = lyrics?.synced ? lyrics.lines : [];
+  const active = activeLine(lines, currentTime + trackStart - offset);
+
+  useEffect(() => {
+    if (Date.now() - manualScrollRef.current < MANUAL_SCROLL_MS) return;
+    activeRef.current?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [active, lyrics]);
+
+  const changeOffset = (delta: number | null) => {
+    if (!key) return;
+    const next = { ...offsets };
+    const value = delta === null ? 0 : Math.round((offset + delta) * 100) / 100;
+    if (value === 0) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    setOffsets(next);
+    saveLyricOffsets(next).catch(e => console.error("Failed to save lyric offsets:", e));
+  };
+
+  const message = !track
+    ? "Nothing playing"
+    : loading
+      ? "Loading lyrics…"
+      : "No lyrics found. Put an .lrc file with the same name next to the track, or add lyrics to its tags.";
+
+  return (
+    <div className="playlist-main lyrics-view">
+      <div className="playlist-header lyrics-header">
+        <span>Lyrics</span>
+        {lyrics?.synced && (
+          <div className="lyrics-offset" title="Move the lyrics earlier or later for this track">
+            <button className="eq-text-btn" onClick={() => changeOffset(-OFFSET_STEP)} title="Earlier">−</button>
+            <span>{formatOffset(offset)}</span>
+            <button className="eq-text-btn" onClick={() => changeOffset(OFFSET_STEP)} title="Later">+</button>
+            {offset !== 0 && (
+              <button className="eq-text-btn" onClick={() => changeOffset(null)}>Reset</button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div
+        className="playlist-content lyrics-content"
+        onWheel={() => { manualScrollRef.current = Date.now(); }}
+      >
+        {!lyrics ? (
+          <div className="empty-state">{message}</div>
+        ) : lyrics.synced ? (
+          <ul className="lyrics-lines">
+            {lines.map((line, i) => (
+              <li
+                key={i}
+                ref={i === active ? activeRef : undefined}
+                className={i === active ? "active" : i < active ? "past" : ""}
+                onClick={() => {
+                  manualScrollRef.current = 0;
+                  onSeek(Math.max(0, line.time + offset - trackStart));
+                }}
+              >
+                {line.text || "♪"}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="lyrics-text">{lyrics.text}</div>
+        )}
+      </div>
+    </div>
+  );
+}
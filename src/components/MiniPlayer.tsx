@@ -0,0 +1,113 @@
+import { useRef, useState } from "react";
+
+interface MiniPlayerProps {
+  title: string;
+  artist?: string;
+  cover?: string;
+  isPlaying: boolean;
+  currentTime: number;
+  duration: number;
+  formatTime: (time: number) => string;
+  onTogglePlay: () => void;
+  onNext: () => void;
+  onPrevious: () => void;
+  onSeek: (time: number) => void;
+  // Back to the full player
+  onExpand: () => void;
+  // Tooltip of the expand button, with its shortcut
+  expandTitle: string;
+}
+
+/**
+ * The compact player: cover, title and artist, transport buttons and a thin
+ * seek bar along the bottom. Same player state as the full layout, so
+ * switching between the two doesn't touch playback.
+ */
+export function MiniPlayer({
+  title,
+  artist,
+  cover,
+  isPlaying,
+  currentTime,
+  duration,
+  formatTime,
+  onTogglePlay,
+  onNext,
+  onPrevious,
+  onSeek,
+  onExpand,
+  expandTitle
+}: MiniPlayerProps) {
+  const seekRef = useRef<HTMLDivElement>(null);
+  // Where a drag along the seek bar would seek to
+  const [dragTime, setDragTime] = useState<number | null>(null);
+
+  const timeAt = (clientX: number) => {
+    const rect = seekRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || !duration) return 0;
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const shownTime = dragTime ?? currentTime;
+  const progress = duration > 0 ? Math.min(1, shownTime / duration) : 0;
+
+  return (
+    <div className="mini-player">
+      <div className="mini-main">
+        <div className="mini-art">
+          {cover ? (
+            <img src={cover} alt="Cover" />
+          ) : (
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10" /><circle cx="12" cy="12" r="3" /></svg>
+          )}
+        </div>
+
+        <div className="mini-info">
+          <span className="mini-title" title={title}>{title}</span>
+          <span className="mini-artist" title={artist}>{artist}</span>
+        </div>
+
+        <div className="mini-controls">
+          <button className="control-btn" onClick={onPrevious} title="Previous">
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor"><polygon points="19 20 9 12 19 4 19 20"></polygon><line x1="5" y1="19" x2="5" y2="5" stroke="currentColor" strokeWidth="2"></line></svg>
+          </button>
+          <button className="control-btn mini-play" onClick={onTogglePlay} title={isPlaying ? "Pause" : "Play"}>
+            {isPlaying ? (
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor"><rect x="6" y="4" width="4" height="16" /><rect x="14" y="4" width="4" height="16" /></svg>
+            ) : (
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor"><polygon points="5 3 19 12 5 21 5 3" /></svg>
+            )}
+          </button>
+          <button className="control-btn" onClick={onNext} title="Next">
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor"><polygon points="5 4 15 12 5 20 5 4"></polygon><line x1="19" y1="5" x2="19" y2="19" stroke="currentColor" strokeWidth="2"></line></svg>
+          </button>
+          <button className="control-btn" onClick={onExpand} title={expandTitle}>
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="15 3 21 3 21 9" /><polyline points="9 21 3 21 3 15" /><line x1="21" y1="3" x2="14" y2="10" /><line x1="3" y1="21" x2="10" y2="14" /></svg>
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={seekRef}
+        className="mini-seek"
+        title={duration ? `${formatTime(shownTime)} / ${formatTime(duration)}` : undefined}
+        onPointerDown={(e) => {
+          if (!duration) return;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          setDragTime(timeAt(e.clientX));
+        }}
+        onPointerMove={(e) => {
+          if (dragTime !== null) setDragTime(timeAt(e.clientX));
+        }}
+        onPointerUp={(e) => {
+          if (dragTime === null) return;
+          onSeek(timeAt(e.clientX));
+          setDragTime(null);
+        }}
+        onPointerCancel={() => setDragTime(null)}
+      >
+        <div className="mini-seek-fill" style={{ width: `${progress * 100}%` }} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { RefObject, useEffect, useRef, useState } from "react";
+import { OPTIONAL_COLUMNS, OptionalColumn, SortColumn, SortState } from "../utils/libraryView";
+
+interface PlaylistHeaderProps {
+  columns: OptionalColumn[];
+  sort: SortState | null;
+  filter: string;
+  filterRef: RefObject<HTMLInputElement | null>;
+  onSort: (column: SortColumn) => void;
+  onFilterChange: (filter: string) => void;
+  onColumnsChange: (columns: OptionalColumn[]) => void;
+  // Make the shown order the playlist's real order
+  onApplySort: () => void;
+}
+
+export function PlaylistHeader({
+  columns,
+  sort,
+  filter,
+  filterRef,
+  onSort,
+  onFilterChange,
+  onColumnsChange,
+  onApplySort
+}: PlaylistHeaderProps) {
+  const [picker, setPicker] = useState<{ x: number; y: number } | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!picker) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setPicker(null);
+    };
+    window.addEventListener("mousedown", handleClick);
+    return () => window.removeEventListener("mousedown", handleClick);
+  }, [picker]);
+
+  const toggleColumn = (id: OptionalColumn, shown: boolean) => {
+    // Keep the picker's order regardless of the order columns were turned on
+    onColumnsChange(OPTIONAL_COLUMNS.map(c => c.id).filter(c => (c === id ? shown : columns.includes(c))));
+  };
+
+  const cell = (column: SortColumn, label: string, className: string) => (
+    <div
+      key={column}
+      className={`${className} sortable ${sort?.column === column ? "sorted" : ""}`}
+      onClick={() => onSort(column)}
+    >
+      {label}
+      {sort?.column === column && <span className="sort-arrow">{sort.descending ? "▼" : "▲"}</span>}
+    </div>
+  );
+
+  return (
+    <>
+      <div className="playlist-toolbar">
+        <input
+          ref={filterRef}
+          className="playlist-filter"
+          type="search"
+          placeholder="Filter title, artist, album"
+          value={filter}
+          onChange={(e) => onFilterChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") {
+              onFilterChange("");
+              e.currentTarget.blur();
+            }
+          }}
+        />
+        {sort && (
+          <button className="eq-text-btn" onClick={onApplySort} title="Reorder the playlist to match this sort">
+            Apply Sort
+          </button>
+        )}
+      </div>
+      <div
+        className="playlist-header"
+        title="Click to sort, right-click to choose columns"
+        onContextMenu={(e) => {
+          e.preventDefault();
+          setPicker({ x: e.clientX, y: e.clientY });
+        }}
+      >
+        {cell("index", "#", "col-idx")}
+        {cell("title", "Title", "col-title")}
+        {OPTIONAL_COLUMNS.filter(c => columns.includes(c.id)).map(c => cell(c.id, c.label, `col-${c.id}`))}
+        {cell("duration", "Duration", "col-dur")}
+      </div>
+
+      {picker && (
+        <div
+          className="menu-dropdown context-menu"
+          ref={menuRef}
+          style={{ left: picker.x, top: picker.y }}
+        >
+          {OPTIONAL_COLUMNS.map(c => (
+            <label key={c.id} className="menu-item menu-check">
+              <input
+                type="checkbox"
+                checked={columns.includes(c.id)}
+                onChange={(e) => toggleColumn(c.id, e.target.checked)}
+              />
+              {c.label}
+            </label>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
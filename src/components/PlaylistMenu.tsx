@@ -0,0 +1,77 @@
+import { useEffect, useRef, useState } from "react";
+
+interface PlaylistMenuProps {
+  canExport: boolean;
+  relativePaths: boolean;
+  onAddFolder: () => void;
+  onImportPlaylist: () => void;
+  onExportM3U: () => void;
+  onExportPLS: () => void;
+  onRelativePathsChange: (relative: boolean) => void;
+  onOpenSettings: () => void;
+  onShowLibrary: () => void;
+  onShowHistory: () => void;
+  onShowShortcuts: () => void;
+}
+
+export function PlaylistMenu({
+  canExport,
+  relativePaths,
+  onAddFolder,
+  onImportPlaylist,
+  onExportM3U,
+  onExportPLS,
+  onRelativePathsChange,
+  onOpenSettings,
+  onShowLibrary,
+  onShowHistory,
+  onShowShortcuts
+}: PlaylistMenuProps) {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    window.addEventListener("mousedown", handleClick);
+    return () => window.removeEventListener("mousedown", handleClick);
+  }, [open]);
+
+  const run = (action: () => void) => () => {
+    setOpen(false);
+    action();
+  };
+
+  return (
+    <div className="menu" ref={menuRef}>
+      <button className="titlebar-btn" onClick={() => setOpen(o => !o)} title="Playlist">
+        <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor"><circle cx="5" cy="12" r="2" /><circle cx="12" cy="12" r="2" /><circle cx="19" cy="12" r="2" /></svg>
+      </button>
+      {open && (
+        <div className="menu-dropdown">
+          <button className="menu-item" onClick={run(onAddFolder)}>Add Folder…</button>
+          <button className="menu-item" onClick={run(onImportPlaylist)}>Import Playlist…</button>
+          <div className="menu-separator" />
+          <button className="menu-item" onClick={run(onExportM3U)} disabled={!canExport}>Export as M3U8…</button>
+          <button className="menu-item" onClick={run(onExportPLS)} disabled={!canExport}>Export as PLS…</button>
+          <label className="menu-item menu-check">
+            <input
+              type="checkbox"
+              checked={relativePaths}
+              onChange={(e) => onRelativePathsChange(e.target.checked)}
+            />
+            Relative paths
+          </label>
+          <div className="menu-separator" />
+          <button className="menu-item" onClick={run(onShowLibrary)}>Library…</button>
+          <button className="menu-item" onClick={run(onShowHistory)}>History…</button>
+          <button className="menu-item" onClick={run(onShowShortcuts)}>Keyboard Shortcuts… (?)</button>
+          <button className="menu-item" onClick={run(onOpenSettings)}>Settings…</button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useEffect, useRef, useState } from "react";
+import { Playlist } from "../types";
+import { TRACK_DRAG_TYPE, TrackDragPayload } from "../utils/playlists";
+
+interface PlaylistSidebarProps {
+  playlists: Playlist[];
+  viewedId: string;
+  playingId: string | null;
+  isPlaying: boolean;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onDropTracks: (targetId: string, payload: TrackDragPayload) => void;
+}
+
+export function PlaylistSidebar({
+  playlists,
+  viewedId,
+  playingId,
+  isPlaying,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onDropTracks
+}: PlaylistSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [contextMenu, setContextMenu] = useState<{ id: string; x: number; y: number } | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!contextMenu) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setContextMenu(null);
+    };
+    window.addEventListener("mousedown", handleClick);
+    return () => window.removeEventListener("mousedown", handleClick);
+  }, [contextMenu]);
+
+  const startRename = (playlist: Playlist) => {
+    setContextMenu(null);
+    setEditingId(playlist.id);
+    setEditName(playlist.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && editName.trim()) onRename(editingId, editName.trim());
+    setEditingId(null);
+  };
+
+  const handleDrop = (e: React.DragEvent, id: string) => {
+    setDropTargetId(null);
+    const data = e.dataTransfer.getData(TRACK_DRAG_TYPE);
+    if (!data) return;
+    e.preventDefault();
+    try {
+      onDropTracks(id, JSON.parse(data) as TrackDragPayload);
+    } catch (err) {
+      console.error("Invalid track drag data:", err);
+    }
+  };
+
+  return (
+    <nav className="sidebar">
+      <div className="sidebar-header">
+        <span>Playlists</span>
+        <button className="sidebar-add" onClick={onCreate} title="New Playlist">+</button>
+      </div>
+      <div className="sidebar-list">
+        {playlists.map(playlist => (
+          <div
+            key={playlist.id}
+            className={`sidebar-item ${playlist.id === viewedId ? "active" : ""} ${playlist.id === dropTargetId ? "drop-target" : ""}`}
+            onClick={() => onSelect(playlist.id)}
+            onDoubleClick={() => startRename(playlist)}
+            onContextMenu={(e) => {
+              e.preventDefault();
+              setContextMenu({ id: playlist.id, x: e.clientX, y: e.clientY });
+            }}
+            onDragOver={(e) => {
+              if (!e.dataTransfer.types.includes(TRACK_DRAG_TYPE)) return;
+              e.preventDefault();
+              e.dataTransfer.dropEffect = "copy";
+              setDropTargetId(playlist.id);
+            }}
+            onDragLeave={() => setDropTargetId(id => (id === playlist.id ? null : id))}
+            onDrop={(e) => handleDrop(e, playlist.id)}
+            title={`${playlist.name} (${playlist.tracks.length} tracks)`}
+          >
+            {editingId === playlist.id ? (
+              <input
+                className="sidebar-rename"
+                autoFocus
+                value={editName}
+                onChange={(e) => setEditName(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") commitRename();
+                  if (e.key === "Escape") setEditingId(null);
+                }}
+                onClick={(e) => e.stopPropagation()}
+              />
+            ) : (
+              <>
+                <span className="sidebar-name">{playlist.name}</span>
+                {playlist.id === playingId && (
+                  <span className="sidebar-playing">{isPlaying ? "▶" : "❚❚"}</span>
+                )}
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {contextMenu && (
+        <div
+          className="menu-dropdown context-menu"
+          ref={menuRef}
+          style={{ left: contextMenu.x, top: contextMenu.y }}
+        >
+          <button
+            className="menu-item"
+            onClick={() => {
+              const playlist = playlists.find(p => p.id === contextMenu.id);
+              if (playlist) startRename(playlist);
+            }}
+          >
+            Rename
+          </button>
+          <button
+            className="menu-item"
+            onClick={() => {
+              setContextMenu(null);
+              onDuplicate(contextMenu.id);
+            }}
+          >
+            Duplicate
+          </button>
+          <button
+            className="menu-item"
+            disabled={playlists.length <= 1}
+            onClick={() => {
+              setContextMenu(null);
+              onDelete(contextMenu.id);
+            }}
+          >
+            Delete
+          </button>
+        </div>
+      )}
+    </nav>
+  );
+}
@@ -0,0 +1,97 @@
+import { useEffect } from "react";
+import { LibraryStatus } from "../utils/library";
+
+interface SettingsPanelProps {
+  musicFolders: string[];
+  onAddMusicFolder: () => void;
+  onRemoveMusicFolder: (folder: string) => void;
+  library: LibraryStatus;
+  onRescanLibrary: () => void;
+  keepPlayingWhenClosed: boolean;
+  onKeepPlayingChange: (enabled: boolean) => void;
+  onClose: () => void;
+}
+
+export function SettingsPanel({
+  musicFolders,
+  onAddMusicFolder,
+  onRemoveMusicFolder,
+  library,
+  onRescanLibrary,
+  keepPlayingWhenClosed,
+  onKeepPlayingChange,
+  onClose
+}: SettingsPanelProps) {
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [onClose]);
+
+  return (
+    <div className="modal-backdrop" onMouseDown={onClose}>
+      <div className="track-info settings-panel" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="track-info-header">
+          <span>Settings</span>
+          <button className="eq-text-btn" onClick={onClose} title="Close">✕</button>
+        </div>
+
+        <div className="settings-section">
+          <div className="settings-section-title">Music Folders</div>
+          <p className="settings-hint">Only files inside these folders can be played and have their tags edited.</p>
+          {musicFolders.length === 0 ? (
+            <div className="settings-empty">No music folders</div>
+          ) : (
+            <ul className="settings-folders">
+              {musicFolders.map(folder => (
+                <li key={folder}>
+                  <span title={folder}>{folder}</span>
+                  <button
+                    className="eq-text-btn"
+                    onClick={() => onRemoveMusicFolder(folder)}
+                    title="Remove folder"
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <button className="eq-text-btn" onClick={onAddMusicFolder}>Add Folder…</button>
+        </div>
+
+        <div className="settings-section">
+          <div className="settings-section-title">Library</div>
+          <p className="settings-hint">
+            {library.tracks.toLocaleString()} {library.tracks === 1 ? "track" : "tracks"} indexed
+            {library.scanning && ", scanning…"}
+          </p>
+          <p className="settings-hint">
+            The music folders are watched for changes. Rescan if files on a network share or an external
+            drive changed without MinPlayer noticing.
+          </p>
+          <button className="eq-text-btn" onClick={onRescanLibrary} disabled={library.scanning}>Rescan</button>
+        </div>
+
+        <div className="settings-section">
+          <div className="settings-section-title">Window</div>
+          <label className="settings-check">
+            <input
+              type="checkbox"
+              checked={keepPlayingWhenClosed}
+              onChange={(e) => onKeepPlayingChange(e.target.checked)}
+            />
+            Keep playing when the window is closed
+          </label>
+          <p className="settings-hint">MinPlayer stays in the tray. Quit it from the tray menu.</p>
+        </div>
+
+        <div className="track-info-actions">
+          <button className="eq-text-btn primary" onClick={onClose}>Done</button>
+        </div>
+      </div>
+    </div>
+  );
+}
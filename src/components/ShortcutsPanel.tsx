@@ -0,0 +1,261 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  COMMANDS,
+  CommandId,
+  DEFAULT_GLOBAL_SHORTCUTS,
+  GLOBAL_COMMANDS,
+  GlobalShortcuts,
+  Keymap,
+  MOD_NAME,
+  canBeGlobal,
+  chordFromEvent,
+  commandForChord,
+  findConflicts,
+  formatChord,
+  resolveKeymap
+} from "../utils/keymap";
+
+interface ShortcutsPanelProps {
+  keymap: Keymap;
+  seekStep: number;
+  volumeStep: number;
+  onKeymapChange: (keymap: Keymap) => void;
+  globalShortcuts: GlobalShortcuts;
+  // Global chords the system wouldn't register, usually taken by another app
+  unavailableGlobal: string[];
+  onGlobalShortcutsChange: (shortcuts: GlobalShortcuts) => void;
+  onStepsChange: (steps: { seekStep?: number; volumeStep?: number }) => void;
+  onClose: () => void;
+}
+
+const GROUPS = [...new Set(COMMANDS.map(c => c.group))];
+
+const labelOf = (id: CommandId) => COMMANDS.find(c => c.id === id)?.label ?? id;
+
+// In-window keys, or system-wide ones
+type Scope = "window" | "global";
+
+/**
+ * Cheat sheet of the current shortcuts, and where they're rebound: click +
+ * next to a command and press the new keys. Keys already taken by another
+ * command have to be confirmed before they move over. Global shortcuts are
+ * kept apart, since they're registered with the system.
+ */
+export function ShortcutsPanel({
+  keymap,
+  seekStep,
+  volumeStep,
+  onKeymapChange,
+  globalShortcuts,
+  unavailableGlobal,
+  onGlobalShortcutsChange,
+  onStepsChange,
+  onClose
+}: ShortcutsPanelProps) {
+  // Command waiting for a key press
+  const [capturing, setCapturing] = useState<{ scope: Scope; id: CommandId } | null>(null);
+  // Keys pressed for `capturing` that another command already uses
+  const [taken, setTaken] = useState<{ scope: Scope; id: CommandId; chord: string; owner: CommandId } | null>(null);
+  // Keys pressed for a global shortcut that can't be one
+  const [rejected, setRejected] = useState<string | null>(null);
+  const conflicts = useMemo(() => findConflicts(keymap), [keymap]);
+
+  const globalOwner = (chord: string) =>
+    GLOBAL_COMMANDS.find(id => (globalShortcuts[id] ?? []).includes(chord)) ?? null;
+
+  const bind = (scope: Scope, id: CommandId, chord: string, owner: CommandId | null) => {
+    if (scope === "window") {
+      const next = { ...keymap };
+      if (owner) next[owner] = next[owner].filter(c => c !== chord);
+      next[id] = [...next[id], chord];
+      onKeymapChange(next);
+    } else {
+      const next = { ...globalShortcuts };
+      if (owner) next[owner] = (next[owner] ?? []).filter(c => c !== chord);
+      next[id] = [...(next[id] ?? []), chord];
+      onGlobalShortcutsChange(next);
+    }
+    setCapturing(null);
+    setTaken(null);
+  };
+
+  const startCapture = (scope: Scope, id: CommandId) => {
+    setTaken(null);
+    setRejected(null);
+    const same = capturing?.scope === scope && capturing.id === id;
+    setCapturing(same ? null : { scope, id });
+  };
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return;
+      if (!capturing) {
+        if (e.key === "Escape") onClose();
+        return;
+      }
+      // Swallow everything while capturing, so the keys don't also act
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code === "Escape") {
+        setCapturing(null);
+        return;
+      }
+      const chord = chordFromEvent(e);
+      if (!chord) return;
+      if (capturing.scope === "global" && !canBeGlobal(chord)) {
+        setRejected(chord);
+        return;
+      }
+      setRejected(null);
+      const owner = capturing.scope === "window" ? commandForChord(keymap, chord) : globalOwner(chord);
+      if (owner === capturing.id) {
+        setCapturing(null);
+      } else if (owner) {
+        setTaken({ ...capturing, chord, owner });
+        setCapturing(null);
+      } else {
+        bind(capturing.scope, capturing.id, chord, null);
+      }
+    };
+    window.addEventListener("keydown", handleKey, true);
+    return () => window.removeEventListener("keydown", handleKey, true);
+  }, [capturing, keymap, globalShortcuts, onClose]);
+
+  const renderKeys = (scope: Scope, id: CommandId, chords: string[], onRemove: (chord: string) => void) => {
+    const active = capturing?.scope === scope && capturing.id === id;
+    return (
+      <span className="shortcut-keys">
+        {chords.map(chord => (
+          <kbd
+            key={chord}
+            className={`key-chip ${scope === "global" && unavailableGlobal.includes(chord) ? "unavailable" : ""}`}
+            title={scope === "global" && unavailableGlobal.includes(chord) ? "In use by another app" : undefined}
+          >
+            {formatChord(chord)}
+            <button className="eq-text-btn" onClick={() => onRemove(chord)} title="Remove">✕</button>
+          </kbd>
+        ))}
+        <button
+          className={`eq-text-btn ${active ? "primary" : ""}`}
+          onClick={() => startCapture(scope, id)}
+          title="Add keys"
+        >
+          {active ? "Press keys…" : "+"}
+        </button>
+      </span>
+    );
+  };
+
+  return (
+    <div className="modal-backdrop" onMouseDown={onClose}>
+      <div className="track-info shortcuts-panel" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="track-info-header">
+          <span>Keyboard Shortcuts</span>
+          <button className="eq-text-btn" onClick={onClose} title="Close">✕</button>
+        </div>
+
+        <div className="shortcuts-steps">
+          <label>
+            Seek step
+            <input
+              type="number"
+              min={1}
+              max={60}
+              value={seekStep}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                if (value >= 1 && value <= 60) onStepsChange({ seekStep: value });
+              }}
+            />
+            s
+          </label>
+          <label>
+            Volume step
+            <input
+              type="number"
+              min={1}
+              max={50}
+              value={Math.round(volumeStep * 100)}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                if (value >= 1 && value <= 50) onStepsChange({ volumeStep: value / 100 });
+              }}
+            />
+            %
+          </label>
+        </div>
+
+        {taken && (
+          <div className="shortcuts-taken">
+            <span>
+              {formatChord(taken.chord)} is used by “{labelOf(taken.owner)}”.
+            </span>
+            <button
+              className="eq-text-btn primary"
+              onClick={() => bind(taken.scope, taken.id, taken.chord, taken.owner)}
+            >
+              Reassign
+            </button>
+            <button className="eq-text-btn" onClick={() => setTaken(null)}>Cancel</button>
+          </div>
+        )}
+        {rejected && (
+          <div className="shortcuts-taken">
+            <span>
+              {formatChord(rejected)} can't be global. Use {MOD_NAME} or Alt with a key, or a media key.
+            </span>
+          </div>
+        )}
+
+        <div className="shortcuts-list">
+          {GROUPS.map(group => (
+            <div key={group} className="settings-section">
+              <div className="settings-section-title">{group}</div>
+              {COMMANDS.filter(c => c.group === group).map(command => (
+                <div
+                  key={command.id}
+                  className={`shortcut-row ${conflicts.has(command.id) ? "conflict" : ""}`}
+                  title={conflicts.has(command.id) ? "Shares keys with another command" : undefined}
+                >
+                  <span className="shortcut-label">{command.label}</span>
+                  {renderKeys("window", command.id, keymap[command.id], chord =>
+                    onKeymapChange({ ...keymap, [command.id]: keymap[command.id].filter(c => c !== chord) })
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+
+          <div className="settings-section">
+            <div className="settings-section-title">Global</div>
+            <p className="settings-hint">These work while MinPlayer is in the background.</p>
+            {GLOBAL_COMMANDS.map(id => {
+              const chords = globalShortcuts[id] ?? [];
+              return (
+                <div key={id} className="shortcut-row">
+                  <span className="shortcut-label">{labelOf(id)}</span>
+                  {renderKeys("global", id, chords, chord =>
+                    onGlobalShortcutsChange({ ...globalShortcuts, [id]: chords.filter(c => c !== chord) })
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="track-info-actions">
+          <button
+            className="eq-text-btn"
+            onClick={() => {
+              onKeymapChange(resolveKeymap({}));
+              onGlobalShortcutsChange(DEFAULT_GLOBAL_SHORTCUTS);
+            }}
+          >
+            Reset to Defaults
+          </button>
+          <button className="eq-text-btn primary" onClick={onClose}>Done</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import { AudioMetadata, Track } from "../types";
+import { CoverEdit, TagEdit, formatChannels, formatSampleRate, readMetadata } from "../utils/tags";
+import { TrackStats } from "../utils/history";
+
+interface TrackInfoPanelProps {
+  track: Track;
+  formatTime: (time: number) => string;
+  onSave: (tags: TagEdit) => Promise<void>;
+  // Resolves with the chosen image file, or null if cancelled
+  onPickCover: () => Promise<string | null>;
+  // Listening statistics for the track, if it has been played
+  stats?: TrackStats;
+  onClose: () => void;
+}
+
+interface TagForm {
+  title: string;
+  artist: string;
+  album: string;
+  albumArtist: string;
+  trackNumber: string;
+  discNumber: string;
+  year: string;
+  genre: string;
+}
+
+const FIELDS: { key: keyof TagForm; label: string; numeric?: boolean }[] = [
+  { key: "title", label: "Title" },
+  { key: "artist", label: "Artist" },
+  { key: "album", label: "Album" },
+  { key: "albumArtist", label: "Album Artist" },
+  { key: "trackNumber", label: "Track", numeric: true },
+  { key: "discNumber", label: "Disc", numeric: true },
+  { key: "year", label: "Year", numeric: true },
+  { key: "genre", label: "Genre" }
+];
+
+const text = (value?: string | number | null) => (value === undefined || value === null ? "" : String(value));
+
+const formFromMetadata = (metadata: AudioMetadata | null, track: Track): TagForm => ({
+  title: text(metadata ? metadata.title : track.title),
+  artist: text(metadata ? metadata.artist : track.artist),
+  album: text(metadata ? metadata.album : track.album),
+  albumArtist: text(metadata ? metadata.albumArtist : track.albumArtist),
+  trackNumber: text(metadata ? metadata.trackNumber : track.trackNumber),
+  discNumber: text(metadata ? metadata.discNumber : track.discNumber),
+  year: text(metadata ? metadata.year : track.year),
+  genre: text(metadata ? metadata.genre : track.genre)
+});
+
+const toNumber = (value: string) => {
+  const n = parseInt(value, 10);
+  return n > 0 ? n : undefined;
+};
+
+export function TrackInfoPanel({ track, formatTime, onSave, onPickCover, stats, onClose }: TrackInfoPanelProps) {
+  const [metadata, setMetadata] = useState<AudioMetadata | null>(null);
+  const [form, setForm] = useState<TagForm>(() => formFromMetadata(null, track));
+  const [cover, setCover] = useState<CoverEdit>({ action: "keep" });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  // A track from a CUE sheet: its tags are the sheet's, and the file's tags
+  // belong to the whole album, so there is nothing here to edit
+  const fromSheet = track.start !== undefined;
+
+  // Read the file itself: the track entry doesn't carry the technical details.
+  // Only reloads when a different file is shown, not on every track update.
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    readMetadata(track.path)
+      .then(result => {
+        if (cancelled) return;
+        setMetadata(result);
+        if (!fromSheet) setForm(formFromMetadata(result, track));
+      })
+      .catch(e => console.error("Failed to read tags:", e))
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [track.path]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [onClose]);
+
+  const pickCover = async () => {
+    const path = await onPickCover();
+    if (path) setCover({ action: "replace", path });
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await onSave({
+        title: form.title,
+        artist: form.artist,
+        album: form.album,
+        albumArtist: form.albumArtist,
+        trackNumber: toNumber(form.trackNumber),
+        discNumber: toNumber(form.discNumber),
+        year: toNumber(form.year),
+        genre: form.genre,
+        cover
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const currentCover = metadata?.cover ?? track.cover;
+  const details: [string, string][] = [];
+  if (metadata?.codec) details.push(["Format", metadata.codec]);
+  if (metadata?.bitrate) details.push(["Bitrate", `${metadata.bitrate} kbps`]);
+  if (metadata?.sampleRate) details.push(["Sample Rate", formatSampleRate(metadata.sampleRate)]);
+  if (metadata?.channels) details.push(["Channels", formatChannels(metadata.channels)]);
+  if (track.duration) details.push(["Duration", formatTime(track.duration)]);
+  details.push(["Plays", String(stats?.plays ?? 0)]);
+  if (stats?.lastPlayed) {
+    details.push(["Last Played", new Date(stats.lastPlayed).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })]);
+  }
+  if (stats?.skips) details.push(["Skips", String(stats.skips)]);
+
+  return (
+    <div className="modal-backdrop" onMouseDown={onClose}>
+      <div className="track-info" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="track-info-header">
+          <span>Track Info</span>
+          <button className="eq-text-btn" onClick={onClose} title="Close">✕</button>
+        </div>
+
+        <div className="track-info-cover">
+          <div className="track-info-art">
+            {cover.action === "remove" || !currentCover ? (
+              <span>No Cover</span>
+            ) : cover.action === "replace" ? (
+              <span title={cover.path}>{cover.path.split(/[\\/]/).pop()}</span>
+            ) : (
+              <img src={currentCover} alt="Cover" />
+            )}
+          </div>
+          <div className="track-info-cover-actions">
+            <button className="eq-text-btn" onClick={pickCover} disabled={loading || fromSheet}>Replace…</button>
+            <button
+              className="eq-text-btn"
+              onClick={() => setCover({ action: "remove" })}
+              disabled={loading || fromSheet || (!currentCover && cover.action !== "replace")}
+            >
+              Remove
+            </button>
+            {cover.action !== "keep" && (
+              <button className="eq-text-btn" onClick={() => setCover({ action: "keep" })}>Undo</button>
+            )}
+          </div>
+        </div>
+
+        <div className="track-info-fields">
+          {FIELDS.map(field => (
+            <label key={field.key} className={field.numeric ? "numeric" : ""}>
+              <span>{field.label}</span>
+              <input
+                type="text"
+                inputMode={field.numeric ? "numeric" : undefined}
+                value={form[field.key]}
+                disabled={loading || fromSheet}
+                onChange={(e) => {
+                  const value = field.numeric ? e.target.value.replace(/\D/g, "") : e.target.value;
+                  setForm(prev => ({ ...prev, [field.key]: value }));
+                }}
+                onKeyDown={(e) => { if (e.key === "Enter") save(); }}
+              />
+            </label>
+          ))}
+        </div>
+
+        {fromSheet && (
+          <p className="settings-hint">Tags of this track come from its CUE sheet and can't be edited here.</p>
+        )}
+
+        <dl className="track-info-details">
+          {details.map(([label, value]) => (
+            <div key={label}>
+              <dt>{label}</dt>
+              <dd>{value}</dd>
+            </div>
+          ))}
+          {fromSheet && (
+            <div>
+              <dt>Position</dt>
+              <dd>{formatTime(track.start ?? 0)}{track.end !== undefined ? ` – ${formatTime(track.end)}` : ""}</dd>
+            </div>
+          )}
+          <div>
+            <dt>File</dt>
+            <dd title={track.path}>{track.path}</dd>
+          </div>
+        </dl>
+
+        <div className="track-info-actions">
+          <button className="eq-text-btn" onClick={onClose}>Cancel</button>
+          <button className="eq-text-btn primary" onClick={save} disabled={loading || saving || fromSheet || track.missing}>
+            {saving ? "Saving…" : "Save"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
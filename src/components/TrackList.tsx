@@ -0,0 +1,190 @@
+import { memo, useEffect, useLayoutEffect, useRef, useState } from "react";
+import { Track } from "../types";
+import { OptionalColumn, PlaylistRow, formatBitrate } from "../utils/libraryView";
+
+// Every row has the same height so the visible window can be computed from
+// the scroll position alone. Keep in sync with .playlist-row in App.css.
+export const ROW_HEIGHT = 32;
+// Rows rendered above and below the viewport to avoid blank edges while scrolling
+const OVERSCAN = 8;
+
+interface TrackListProps {
+  rows: PlaylistRow[];
+  // Playlist index of the current track, or -1 if it isn't in this list
+  activeIndex: number;
+  isPlaying: boolean;
+  selectedIds: Set<string>;
+  focusedId: string | null;
+  // Insert position (playlist index) while rows are dragged within the list
+  dropIndex: number | null;
+  trackCount: number;
+  columns: OptionalColumn[];
+  formatTime: (time: number) => string;
+  // Row callbacks get the row's playlist index, so they can stay the same
+  // function for every row and across renders
+  onRowClick: (index: number, e: React.MouseEvent) => void;
+  onRowDragStart: (index: number, e: React.DragEvent) => void;
+  onRowContextMenu: (index: number, e: React.MouseEvent) => void;
+  onDragOver: (e: React.DragEvent<HTMLDivElement>) => void;
+  onDragLeave: (e: React.DragEvent<HTMLDivElement>) => void;
+  onDrop: (e: React.DragEvent<HTMLDivElement>) => void;
+  onDragEnd: () => void;
+}
+
+// Memoized playlist item component
+const PlaylistItem = memo(({
+  track,
+  index,
+  isActive,
+  isPlaying,
+  isSelected,
+  isFocused,
+  isEven,
+  dropIndicator,
+  columns,
+  formatTime,
+  onClick,
+  onDragStart,
+  onContextMenu
+}: {
+  track: Track;
+  index: number;
+  isActive: boolean;
+  isPlaying: boolean;
+  isSelected: boolean;
+  isFocused: boolean;
+  // Striping follows the display order, not the playlist index
+  isEven: boolean;
+  // Where dragged rows would be inserted relative to this one
+  dropIndicator: "before" | "after" | null;
+  columns: OptionalColumn[];
+  formatTime: (time: number) => string;
+  onClick: (index: number, e: React.MouseEvent) => void;
+  onDragStart: (index: number, e: React.DragEvent) => void;
+  onContextMenu: (index: number, e: React.MouseEvent) => void;
+}) => (
+  <div
+    className={`playlist-row ${isEven ? 'even' : ''} ${isActive ? 'active' : ''} ${isSelected ? 'selected' : ''} ${isFocused ? 'focused' : ''} ${dropIndicator ? `drop-${dropIndicator}` : ''} ${track.missing ? 'missing' : ''}`}
+    data-index={index}
+    onClick={(e) => onClick(index, e)}
+    draggable
+    onDragStart={(e) => onDragStart(index, e)}
+    onContextMenu={(e) => onContextMenu(index, e)}
+    title={track.missing ? `File not found: ${track.path}` : undefined}
+  >
+    <div className="col-idx">
+      {isActive && isPlaying ? (
+        <span>▶</span>
+      ) : (
+        (index + 1).toString().padStart(2, '0')
+      )}
+    </div>
+    <div className="col-title">{track.title}</div>
+    {columns.map(column => (
+      <div key={column} className={`col-${column}`} title={column === "path" ? track.path : undefined}>
+        {column === "artist" ? track.artist
+          : column === "album" ? track.album
+          : column === "year" ? track.year
+          : column === "bitrate" ? formatBitrate(track.bitrate)
+          : track.path}
+      </div>
+    ))}
+    <div className="col-dur">{formatTime(track.duration || 0)}</div>
+  </div>
+));
+
+PlaylistItem.displayName = 'PlaylistItem';
+
+/**
+ * The track list. Only the rows in (or near) the viewport are rendered, so
+ * lists of tens of thousands of tracks scroll as smoothly as short ones.
+ * Memoized: playback progress re-renders the app several times a second but
+ * leaves these props untouched.
+ */
+export const TrackList = memo(function TrackList({
+  rows,
+  activeIndex,
+  isPlaying,
+  selectedIds,
+  focusedId,
+  dropIndex,
+  trackCount,
+  columns,
+  formatTime,
+  onRowClick,
+  onRowDragStart,
+  onRowContextMenu,
+  onDragOver,
+  onDragLeave,
+  onDrop,
+  onDragEnd
+}: TrackListProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    setViewportHeight(container.clientHeight);
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Keep the focused row on screen. It may not be rendered yet, so this
+  // works from its position rather than the DOM. Only runs when focus moves;
+  // following every list change would fight the user's own scrolling.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!focusedId || !container) return;
+    const position = rows.findIndex(row => row.track.id === focusedId);
+    if (position === -1) return;
+    const top = position * ROW_HEIGHT;
+    if (top < container.scrollTop) {
+      container.scrollTop = top;
+    } else if (top + ROW_HEIGHT > container.scrollTop + container.clientHeight) {
+      container.scrollTop = top + ROW_HEIGHT - container.clientHeight;
+    }
+  }, [focusedId]);
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(rows.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+
+  return (
+    <div
+      className="playlist-content"
+      ref={containerRef}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      onDragOver={onDragOver}
+      onDragLeave={onDragLeave}
+      onDrop={onDrop}
+      onDragEnd={onDragEnd}
+    >
+      <div className="playlist-window" style={{ height: rows.length * ROW_HEIGHT }}>
+        <div style={{ transform: `translateY(${first * ROW_HEIGHT}px)` }}>
+          {rows.slice(first, last).map(({ track, index }, i) => (
+            <PlaylistItem
+              key={track.id}
+              track={track}
+              index={index}
+              isActive={index === activeIndex}
+              isPlaying={isPlaying}
+              isSelected={selectedIds.has(track.id)}
+              isFocused={track.id === focusedId}
+              isEven={(first + i) % 2 === 1}
+              dropIndicator={
+                dropIndex === index ? "before" : dropIndex === trackCount && index === trackCount - 1 ? "after" : null
+              }
+              columns={columns}
+              formatTime={formatTime}
+              onClick={onRowClick}
+              onDragStart={onRowDragStart}
+              onContextMenu={onRowContextMenu}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,153 @@
+import { useEffect, useRef } from "react";
+import { EngineAnalysers } from "../utils/AudioEngine";
+import { VISUALIZER_MODES, VisualizerMode, measureLevels, meterPosition } from "../utils/visualizer";
+
+interface VisualizerProps {
+  analysers: EngineAnalysers | null;
+  mode: VisualizerMode;
+  // Only animates while something is playing
+  active: boolean;
+  onClick: () => void;
+}
+
+const SPECTRUM_BARS = 48;
+const SPECTRUM_MIN_HZ = 40;
+const SPECTRUM_MAX_HZ = 16000;
+// How fast the peak hold markers fall back, in dB per second
+const PEAK_HOLD_DECAY = 20;
+
+// Match the canvas's backing store to its size on screen
+function fitCanvas(canvas: HTMLCanvasElement) {
+  const dpr = window.devicePixelRatio || 1;
+  const width = Math.round(canvas.clientWidth * dpr);
+  const height = Math.round(canvas.clientHeight * dpr);
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  return { width, height, dpr };
+}
+
+/**
+ * Spectrum, oscilloscope or stereo level meters for whatever the engine is
+ * playing. Runs on requestAnimationFrame, and stops while paused or while
+ * the window is hidden.
+ */
+export function Visualizer({ analysers, mode, active, onClick }: VisualizerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !analysers) return;
+    const clear = () => ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!active) {
+      clear();
+      return;
+    }
+
+    const { mix, left, right } = analysers;
+    const style = getComputedStyle(canvas);
+    const color = style.color;
+    const peakColor = style.getPropertyValue("--text-primary") || color;
+    const frequencies = new Uint8Array(mix.frequencyBinCount);
+    const waveform = new Float32Array(mix.fftSize);
+    const channels = [new Float32Array(left.fftSize), new Float32Array(right.fftSize)];
+    const peakHold = [-Infinity, -Infinity];
+    let lastFrame = 0;
+
+    const drawSpectrum = (width: number, height: number) => {
+      mix.getByteFrequencyData(frequencies);
+      const nyquist = mix.context.sampleRate / 2;
+      const step = width / SPECTRUM_BARS;
+      ctx.fillStyle = color;
+      for (let i = 0; i < SPECTRUM_BARS; i++) {
+        // Bars are spaced logarithmically, like the equalizer bands
+        const lo = SPECTRUM_MIN_HZ * Math.pow(SPECTRUM_MAX_HZ / SPECTRUM_MIN_HZ, i / SPECTRUM_BARS);
+        const hi = SPECTRUM_MIN_HZ * Math.pow(SPECTRUM_MAX_HZ / SPECTRUM_MIN_HZ, (i + 1) / SPECTRUM_BARS);
+        const from = Math.floor((lo / nyquist) * frequencies.length);
+        const to = Math.max(from + 1, Math.ceil((hi / nyquist) * frequencies.length));
+        let value = 0;
+        for (let j = from; j < to && j < frequencies.length; j++) value = Math.max(value, frequencies[j]);
+        const barHeight = Math.max(1, (value / 255) * height);
+        ctx.fillRect(i * step, height - barHeight, Math.max(1, step - 2), barHeight);
+      }
+    };
+
+    const drawOscilloscope = (width: number, height: number, dpr: number) => {
+      mix.getFloatTimeDomainData(waveform);
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1.5 * dpr;
+      ctx.beginPath();
+      for (let i = 0; i < waveform.length; i++) {
+        const x = (i / (waveform.length - 1)) * width;
+        const y = (0.5 - waveform[i] / 2) * height;
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      }
+      ctx.stroke();
+    };
+
+    const drawMeters = (width: number, height: number, elapsed: number) => {
+      const rowHeight = height / 2;
+      [left, right].forEach((analyser, i) => {
+        analyser.getFloatTimeDomainData(channels[i]);
+        const { peak, rms } = measureLevels(channels[i]);
+        peakHold[i] = Math.max(peak, peakHold[i] - PEAK_HOLD_DECAY * elapsed);
+        const y = i * rowHeight + rowHeight * 0.15;
+        const barHeight = rowHeight * 0.7;
+        ctx.fillStyle = color;
+        ctx.globalAlpha = 0.35;
+        ctx.fillRect(0, y, meterPosition(peak) * width, barHeight);
+        ctx.globalAlpha = 1;
+        ctx.fillRect(0, y, meterPosition(rms) * width, barHeight);
+        ctx.fillStyle = peakColor;
+        ctx.fillRect(Math.min(meterPosition(peakHold[i]) * width, width - 2), y, 2, barHeight);
+      });
+    };
+
+    let frame = 0;
+    let running = false;
+    const render = (now: number) => {
+      const elapsed = lastFrame ? (now - lastFrame) / 1000 : 0;
+      lastFrame = now;
+      const { width, height, dpr } = fitCanvas(canvas);
+      clear();
+      if (mode === "spectrum") drawSpectrum(width, height);
+      else if (mode === "oscilloscope") drawOscilloscope(width, height, dpr);
+      else if (mode === "meters") drawMeters(width, height, elapsed);
+      frame = requestAnimationFrame(render);
+    };
+    const start = () => {
+      if (running || document.hidden) return;
+      running = true;
+      lastFrame = 0;
+      frame = requestAnimationFrame(render);
+    };
+    const stop = () => {
+      running = false;
+      cancelAnimationFrame(frame);
+    };
+    const handleVisibility = () => (document.hidden ? stop() : start());
+
+    document.addEventListener("visibilitychange", handleVisibility);
+    start();
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibility);
+      stop();
+      clear();
+    };
+  }, [analysers, mode, active]);
+
+  if (!analysers || mode === "off") return null;
+
+  const label = VISUALIZER_MODES.find(m => m.id === mode)?.label;
+  return (
+    <canvas
+      ref={canvasRef}
+      className={`visualizer ${mode}`}
+      onClick={onClick}
+      title={`${label} (click to switch)`}
+    />
+  );
+}
@@ -0,0 +1,225 @@
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+import { loadWaveform } from "../utils/waveform";
+import { LoopPoints } from "../utils/transport";
+
+interface WaveformSeekBarProps {
+  // File of the current track, or null when nothing is loaded
+  path: string | null;
+  // Part of the file the track plays, for tracks from a CUE sheet
+  start?: number;
+  end?: number;
+  currentTime: number;
+  duration: number;
+  formatTime: (time: number) => string;
+  onSeek: (time: number) => void;
+  // Seconds moved by an arrow key while the bar has focus
+  keyStep: number;
+  loop: LoopPoints | null;
+  // Shift-dragging across the waveform marks a loop
+  onLoopChange: (loop: LoopPoints) => void;
+}
+
+// Shorter Shift-drags are taken as a slip rather than a loop
+const MIN_LOOP_SECONDS = 0.2;
+
+// Page Up/Down move this fraction of the track
+const PAGE_FRACTION = 0.1;
+
+// Width of one bar including the gap after it, in CSS pixels
+const BAR_STEP = 3;
+
+// Draw the waveform as mirrored bars in the canvas's CSS `color`. Without
+// peaks (still loading, or a format the backend can't decode) it's a flat line.
+function drawWaveform(canvas: HTMLCanvasElement, peaks: number[] | null, width: number, height: number) {
+  const dpr = window.devicePixelRatio || 1;
+  canvas.width = Math.round(width * dpr);
+  canvas.height = Math.round(height * dpr);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  ctx.scale(dpr, dpr);
+  ctx.fillStyle = getComputedStyle(canvas).color;
+
+  const bars = Math.floor(width / BAR_STEP);
+  // Scale to the loudest peak so quiet recordings still fill the bar
+  const loudest = peaks ? peaks.reduce((max, p) => Math.max(max, p), 1) : 1;
+  for (let i = 0; i < bars; i++) {
+    let peak = 0;
+    if (peaks && peaks.length > 0) {
+      const from = Math.floor((i * peaks.length) / bars);
+      const to = Math.max(from + 1, Math.floor(((i + 1) * peaks.length) / bars));
+      for (let j = from; j < to && j < peaks.length; j++) peak = Math.max(peak, peaks[j]);
+    }
+    const barHeight = Math.max(2, (peak / loudest) * height);
+    ctx.fillRect(i * BAR_STEP, (height - barHeight) / 2, BAR_STEP - 1, barHeight);
+  }
+}
+
+/**
+ * Seek bar showing the current track's waveform. The peaks are drawn once
+ * per track and size; playback only moves the clip of the played layer, so
+ * hour-long files cost no more per update than short ones.
+ */
+export function WaveformSeekBar({
+  path,
+  start,
+  end,
+  currentTime,
+  duration,
+  formatTime,
+  onSeek,
+  keyStep,
+  loop,
+  onLoopChange
+}: WaveformSeekBarProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const baseRef = useRef<HTMLCanvasElement>(null);
+  const playedRef = useRef<HTMLCanvasElement>(null);
+  const [peaks, setPeaks] = useState<number[] | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  // Position under the pointer while hovering, and where a drag would seek to
+  const [hover, setHover] = useState<{ x: number; time: number } | null>(null);
+  const [dragTime, setDragTime] = useState<number | null>(null);
+  // Loop being marked by a Shift-drag: where it started and where it's at
+  const [loopDrag, setLoopDrag] = useState<{ from: number; to: number } | null>(null);
+
+  useEffect(() => {
+    setPeaks(null);
+    if (!path) return;
+    let cancelled = false;
+    loadWaveform(path, start, end)
+      .then(result => { if (!cancelled) setPeaks(result); })
+      .catch(e => console.warn("No waveform for", path, e));
+    return () => { cancelled = true; };
+  }, [path, start, end]);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const measure = () => setSize({ width: container.clientWidth, height: container.clientHeight });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (size.width === 0) return;
+    for (const canvas of [baseRef.current, playedRef.current]) {
+      if (canvas) drawWaveform(canvas, peaks, size.width, size.height);
+    }
+  }, [peaks, size]);
+
+  const pointerAt = (clientX: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    const x = Math.min(Math.max(clientX - rect.left, 0), rect.width);
+    return { x, time: rect.width > 0 ? (x / rect.width) * duration : 0 };
+  };
+
+  // Where a key press on the focused bar seeks to, if it's one the bar handles
+  const keyTarget = (key: string): number | null => {
+    switch (key) {
+      case "ArrowLeft":
+      case "ArrowDown":
+        return currentTime - keyStep;
+      case "ArrowRight":
+      case "ArrowUp":
+        return currentTime + keyStep;
+      case "PageDown":
+        return currentTime - duration * PAGE_FRACTION;
+      case "PageUp":
+        return currentTime + duration * PAGE_FRACTION;
+      case "Home":
+        return 0;
+      case "End":
+        return duration;
+      default:
+        return null;
+    }
+  };
+
+  const shownTime = dragTime ?? currentTime;
+  const played = duration > 0 ? Math.min(shownTime / duration, 1) * 100 : 0;
+  const shownLoop = !duration
+    ? null
+    : loopDrag
+      ? { start: Math.min(loopDrag.from, loopDrag.to), end: Math.max(loopDrag.from, loopDrag.to) }
+      : loop;
+
+  return (
+    <div
+      ref={containerRef}
+      className={`waveform ${duration > 0 ? "" : "disabled"}`}
+      role="slider"
+      tabIndex={duration > 0 ? 0 : -1}
+      aria-label="Seek"
+      aria-disabled={duration > 0 ? undefined : true}
+      aria-valuemin={0}
+      aria-valuemax={duration}
+      aria-valuenow={shownTime}
+      aria-valuetext={`${formatTime(shownTime)} of ${formatTime(duration)}`}
+      onKeyDown={(e) => {
+        // Modified arrows stay with the app's shortcuts (next track, volume...)
+        if (!duration || e.metaKey || e.ctrlKey || e.altKey || e.shiftKey) return;
+        const time = keyTarget(e.key);
+        if (time === null) return;
+        // Handled here rather than by the window's seek shortcuts
+        e.preventDefault();
+        e.stopPropagation();
+        onSeek(Math.min(Math.max(time, 0), duration));
+      }}
+      onPointerDown={(e) => {
+        if (!duration || e.button !== 0) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const { time } = pointerAt(e.clientX);
+        if (e.shiftKey) setLoopDrag({ from: time, to: time });
+        else setDragTime(time);
+      }}
+      onPointerMove={(e) => {
+        if (!duration) return;
+        const at = pointerAt(e.clientX);
+        setHover(at);
+        if (dragTime !== null) setDragTime(at.time);
+        if (loopDrag) setLoopDrag({ ...loopDrag, to: at.time });
+      }}
+      onPointerUp={(e) => {
+        const { time } = pointerAt(e.clientX);
+        if (loopDrag) {
+          const start = Math.min(loopDrag.from, time);
+          const end = Math.max(loopDrag.from, time);
+          if (end - start >= MIN_LOOP_SECONDS) onLoopChange({ start, end });
+          setLoopDrag(null);
+        } else if (dragTime !== null) {
+          onSeek(time);
+          setDragTime(null);
+        }
+      }}
+      onPointerCancel={() => {
+        setDragTime(null);
+        setLoopDrag(null);
+      }}
+      onPointerLeave={() => setHover(null)}
+    >
+      <canvas ref={baseRef} className="waveform-base" />
+      <canvas
+        ref={playedRef}
+        className="waveform-played"
+        style={{ clipPath: `inset(0 ${100 - played}% 0 0)` }}
+      />
+      {shownLoop && (
+        <div
+          className={`waveform-loop ${shownLoop.end === null ? "open" : ""}`}
+          style={{
+            left: `${(shownLoop.start / duration) * 100}%`,
+            width: shownLoop.end === null ? 0 : `${((shownLoop.end - shownLoop.start) / duration) * 100}%`
+          }}
+        />
+      )}
+      {hover && (
+        <>
+          <div className="waveform-cursor" style={{ left: hover.x }} />
+          <div className="waveform-tooltip" style={{ left: hover.x }}>{formatTime(hover.time)}</div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+// Gains in dB, peaks as linear sample values (1.0 = full scale)
+export interface ReplayGainInfo {
+  trackGain?: number;
+  trackPeak?: number;
+  albumGain?: number;
+  albumPeak?: number;
+}
+
+export interface Track {
+  // Stable across reorders and edits; a copy in another playlist gets its own
+  id: string;
+  path: string;
+  title: string;
+  artist?: string;
+  album?: string;
+  albumArtist?: string;
+  trackNumber?: number;
+  discNumber?: number;
+  year?: number;
+  genre?: string;
+  // kbps
+  bitrate?: number;
+  cover?: string;
+  duration?: number;
+  replayGain?: ReplayGainInfo;
+  // Set when a restored track's file can no longer be found on disk
+  missing?: boolean;
+  // A track from a CUE sheet plays only this part of its file, in seconds
+  // from the file's start; without an end it runs to the end of the file
+  start?: number;
+  end?: number;
+}
+
+export interface AudioMetadata {
+  title?: string;
+  artist?: string;
+  album?: string;
+  albumArtist?: string;
+  year?: number;
+  genre?: string;
+  duration?: number;
+  cover?: string;
+  trackNumber?: number;
+  discNumber?: number;
+  replayGainTrackGain?: number;
+  replayGainTrackPeak?: number;
+  replayGainAlbumGain?: number;
+  replayGainAlbumPeak?: number;
+  codec?: string;
+  // kbps
+  bitrate?: number;
+  // Hz
+  sampleRate?: number;
+  channels?: number;
+  // From the tags; LRC text when synced
+  lyrics?: string;
+}
+
+// A file's entry in the library database
+export interface LibraryTrack {
+  path: string;
+  metadata: AudioMetadata;
+  // Cover thumbnail file in the app's cache
+  thumbnail: string | null;
+  // Range of the file, for tracks split out of a CUE sheet
+  start: number | null;
+  end: number | null;
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  tracks: Track[];
+}
@@ -1,46 +1,522 @@
+import { EQ_FREQUENCIES } from "./equalizer";
+import { DEFAULT_REPLAY_GAIN, ReplayGainSettings, replayGainFactor } from "./replayGain";
+import { ReplayGainInfo, Track } from "../types";
+
+/**
+ * Part of a file that makes up a track, in seconds. Tracks split out of a
+ * CUE sheet share one file; `end` is null for one that plays to the end.
+ */
+export interface PlayRange {
+  start: number;
+  end: number | null;
+}
+
+const WHOLE_FILE: PlayRange = { start: 0, end: null };
+
+export const trackRange = (track: Pick<Track, "start" | "end">): PlayRange =>
+  track.start === undefined ? WHOLE_FILE : { start: track.start, end: track.end ?? null };
+
+const sameRange = (a: PlayRange, b: PlayRange) => a.start === b.start && a.end === b.end;
+
+// One of the two players the engine alternates between. While one plays,
+// the other can already hold the next track so the handoff is immediate.
+interface Voice {
+  audio: HTMLAudioElement;
+  // Crossfade envelope
+  gain: GainNode | null;
+  // ReplayGain correction for whatever this voice is playing
+  normalizer: GainNode | null;
+  replayGain?: ReplayGainInfo;
+  src: string | null;
+  range: PlayRange;
+  // In seconds from the start of the file
+  pendingSeek: number | null;
+}
+
+// How often an active A-B loop checks whether playback passed B, and a track
+// that stops partway through its file whether it reached its end. timeupdate
+// only fires a few times a second, far too coarse for either.
+const LOOP_CHECK_MS = 20;
+
+/** Taps for the visualizer: the mixed-down signal and each stereo channel */
+export interface EngineAnalysers {
+  mix: AnalyserNode;
+  left: AnalyserNode;
+  right: AnalyserNode;
+}
+
 export class AudioEngine {
-  private audio: HTMLAudioElement;
+  private voices: [Voice, Voice];
+  private active = 0;
+  // Standby voice has been given the next track
+  private nextQueued = false;
+  // Outgoing voice during a crossfade
+  private fading: Voice | null = null;
+  private fadeTimer: ReturnType<typeof setTimeout> | null = null;
+  private crossfade = 0;
+  private volume = 1;
+  private replayGainSettings: ReplayGainSettings = DEFAULT_REPLAY_GAIN;
+  private playbackRate = 1;
+  private preservePitch = true;
+  private loop: { start: number; end: number } | null = null;
+  private loopTimer: ReturnType<typeof setInterval> | null = null;
+  private boundaryTimer: ReturnType<typeof setInterval> | null = null;
+  // Next track is another part of the file that's playing: playback carries
+  // on into it rather than switching voices
+  private inPlaceNext: { range: PlayRange; replayGain?: ReplayGainInfo } | null = null;
+
+  private context: AudioContext | null = null;
+  private input: GainNode | null = null;
+  private preamp: GainNode | null = null;
+  private filters: BiquadFilterNode[] = [];
+  private master: GainNode | null = null;
+  private analysers: EngineAnalysers | null = null;
+
   private onTimeUpdate: ((currentTime: number) => void) | null = null;
   private onEnded: (() => void) | null = null;
   private onDurationChange: ((duration: number) => void) | null = null;
 
   constructor() {
-    this.audio = new Audio();
-    this.audio.addEventListener("timeupdate", () => {
-      if (this.onTimeUpdate) this.onTimeUpdate(this.audio.currentTime);
+    this.voices = [this.createVoice(), this.createVoice()];
+    this.setupGraph();
+  }
+
+  private get current() {
+    return this.voices[this.active];
+  }
+
+  private get standby() {
+    return this.voices[1 - this.active];
+  }
+
+  private createVoice(): Voice {
+    const voice: Voice = {
+      audio: new Audio(), gain: null, normalizer: null, src: null, range: WHOLE_FILE, pendingSeek: null
+    };
+    const { audio } = voice;
+    audio.preload = "auto";
+    // Tracks come from the stream:// protocol, a different origin than the
+    // page; without CORS the Web Audio graph would only receive silence
+    audio.crossOrigin = "anonymous";
+
+    audio.addEventListener("timeupdate", () => {
+      if (voice !== this.current) return;
+      if (this.onTimeUpdate) this.onTimeUpdate(this.position(voice));
+
+      // Start fading into the next track once we're within the crossfade window
+      const end = this.rangeEnd(voice);
+      if (!this.loop && this.crossfade > 0 && this.nextQueued && !this.fading && end) {
+        const remaining = end - audio.currentTime;
+        if (remaining <= this.crossfade) this.handoff(Math.max(0, remaining));
+      }
+      this.checkBoundary();
     });
-    this.audio.addEventListener("ended", () => {
-      if (this.onEnded) this.onEnded();
+    audio.addEventListener("ended", () => {
+      if (voice !== this.current) return;
+      // B at the very end of the track
+      if (this.loop) {
+        audio.currentTime = this.loop.start;
+        audio.play().catch(e => console.error("Loop playback failed:", e));
+        return;
+      }
+      this.trackEnded();
     });
-    this.audio.addEventListener("loadedmetadata", () => {
-      if (this.onDurationChange) this.onDurationChange(this.audio.duration);
+    audio.addEventListener("loadedmetadata", () => {
+      if (voice.pendingSeek !== null) {
+        audio.currentTime = Math.min(voice.pendingSeek, audio.duration || 0);
+        voice.pendingSeek = null;
+      }
+      if (voice === this.current && this.onDurationChange) this.onDurationChange(this.length(voice));
     });
-    this.audio.addEventListener("error", () => {
-      console.error("Audio Playback Error:", this.audio.error, this.audio.src);
+    audio.addEventListener("error", () => {
+      // A failed preload only matters if we actually hand off to it
+      if (voice === this.standby && this.nextQueued) {
+        this.nextQueued = false;
+        return;
+      }
+      console.error("Audio Playback Error:", audio.error, audio.src);
     });
+    return voice;
+  }
+
+  // Route both voices through their own ReplayGain and crossfade gains into a
+  // shared input, then the EQ (preamp + one filter per band) and the master volume.
+  // The analysers listen just before the volume, so the visualizer doesn't
+  // shrink when the music is turned down.
+  // Falls back to plain element volume if Web Audio isn't available.
+  private setupGraph() {
+    try {
+      const context = new AudioContext();
+      this.input = context.createGain();
+      this.preamp = context.createGain();
+      this.filters = EQ_FREQUENCIES.map((frequency, i) => {
+        const filter = context.createBiquadFilter();
+        // Shelves at the ends so the outer bands also cover everything beyond them
+        filter.type = i === 0 ? "lowshelf" : i === EQ_FREQUENCIES.length - 1 ? "highshelf" : "peaking";
+        filter.frequency.value = frequency;
+        filter.Q.value = 1.41;
+        filter.gain.value = 0;
+        return filter;
+      });
+      this.master = context.createGain();
+
+      let node: AudioNode = this.input;
+      for (const next of [this.preamp, ...this.filters, this.master]) {
+        node.connect(next);
+        node = next;
+      }
+      this.master.connect(context.destination);
+
+      const last = this.filters[this.filters.length - 1];
+      const mix = context.createAnalyser();
+      mix.fftSize = 4096;
+      mix.smoothingTimeConstant = 0.7;
+      last.connect(mix);
+      const splitter = context.createChannelSplitter(2);
+      last.connect(splitter);
+      const [left, right] = [0, 1].map(channel => {
+        const analyser = context.createAnalyser();
+        analyser.fftSize = 2048;
+        splitter.connect(analyser, channel);
+        return analyser;
+      });
+      this.analysers = { mix, left, right };
+      for (const voice of this.voices) {
+        voice.normalizer = context.createGain();
+        voice.gain = context.createGain();
+        context.createMediaElementSource(voice.audio).connect(voice.normalizer);
+        voice.normalizer.connect(voice.gain);
+        voice.gain.connect(this.input);
+      }
+      this.context = context;
+    } catch (e) {
+      console.warn("Web Audio unavailable, using element volume:", e);
+      this.context = null;
+      this.input = null;
+      this.preamp = null;
+      this.filters = [];
+      this.master = null;
+      this.analysers = null;
+      for (const voice of this.voices) {
+        voice.gain = null;
+        voice.normalizer = null;
+      }
+    }
+  }
+
+  private setGain(voice: Voice, value: number) {
+    if (!voice.gain || !this.context) return;
+    voice.gain.gain.cancelScheduledValues(this.context.currentTime);
+    voice.gain.gain.setValueAtTime(value, this.context.currentTime);
+  }
+
+  private applyReplayGain(voice: Voice) {
+    if (!voice.normalizer) return;
+    voice.normalizer.gain.value = voice.src ? replayGainFactor(voice.replayGain, this.replayGainSettings) : 1;
+  }
+
+  private setVoiceSource(
+    voice: Voice,
+    src: string | null,
+    startAt = 0,
+    replayGain?: ReplayGainInfo,
+    range: PlayRange = WHOLE_FILE
+  ) {
+    voice.range = src ? range : WHOLE_FILE;
+    voice.pendingSeek = voice.range.start + startAt > 0 ? voice.range.start + startAt : null;
+    voice.src = src;
+    voice.replayGain = src ? replayGain : undefined;
+    this.applyReplayGain(voice);
+    if (src) {
+      voice.audio.src = src;
+    } else {
+      voice.audio.pause();
+      voice.audio.removeAttribute("src");
+    }
+    voice.audio.load();
+    // Loading resets the rate to the default one
+    this.applyRate(voice);
+  }
+
+  private applyRate(voice: Voice) {
+    voice.audio.defaultPlaybackRate = this.playbackRate;
+    voice.audio.playbackRate = this.playbackRate;
+    voice.audio.preservesPitch = this.preservePitch;
+  }
+
+  // Where the voice's track ends in its file; NaN until the file's duration is known
+  private rangeEnd(voice: Voice) {
+    return voice.range.end ?? voice.audio.duration;
+  }
+
+  // Times given to and reported by the engine are relative to the track's range
+  private length(voice: Voice) {
+    return this.rangeEnd(voice) - voice.range.start;
+  }
+
+  private position(voice: Voice) {
+    const position = Math.max(0, voice.audio.currentTime - voice.range.start);
+    const length = this.length(voice);
+    return length > 0 ? Math.min(position, length) : position;
   }
 
-  load(src: string) {
-    // For local files in Tauri, we might need the "asset:" protocol or convertFileSrc
-    // But for now, let's assume standard URL or converted path is passed
-    this.audio.src = src;
-    this.audio.load();
+  // Only tracks that stop before the end of their file need watching
+  private watchBoundary() {
+    const needed = this.current.range.end !== null;
+    if (needed && !this.boundaryTimer) {
+      this.boundaryTimer = setInterval(() => this.checkBoundary(), LOOP_CHECK_MS);
+    } else if (!needed && this.boundaryTimer) {
+      clearInterval(this.boundaryTimer);
+      this.boundaryTimer = null;
+    }
+  }
+
+  private checkBoundary() {
+    const { audio, range } = this.current;
+    if (range.end === null || this.loop || audio.paused) return;
+    if (audio.currentTime >= range.end) this.trackEnded();
+  }
+
+  // The current track is over: carry on into the next part of the file,
+  // switch to the preloaded voice, or stop and let the app decide
+  private trackEnded() {
+    if (this.inPlaceNext) {
+      this.advanceInPlace();
+    } else if (this.nextQueued) {
+      this.handoff(0);
+    } else {
+      // A range track has to be stopped, or it runs into the next one
+      if (this.current.range.end !== null) this.current.audio.pause();
+      if (this.onEnded) this.onEnded();
+    }
+  }
+
+  // Move on to another range of the file that's playing. Consecutive tracks
+  // of a sheet follow on without a seek, so there is no gap between them.
+  private advanceInPlace() {
+    const next = this.inPlaceNext;
+    if (!next) return;
+    const voice = this.current;
+    this.inPlaceNext = null;
+    this.setLoop(null);
+    voice.range = next.range;
+    voice.replayGain = next.replayGain;
+    this.applyReplayGain(voice);
+    const { currentTime } = voice.audio;
+    if (currentTime < next.range.start || (next.range.end !== null && currentTime >= next.range.end)) {
+      voice.audio.currentTime = next.range.start;
+    }
+    this.watchBoundary();
+
+    if (this.onDurationChange && this.length(voice)) this.onDurationChange(this.length(voice));
+    if (this.onTimeUpdate) this.onTimeUpdate(this.position(voice));
+    if (this.onEnded) this.onEnded();
+  }
+
+  private checkLoop() {
+    const { audio } = this.current;
+    if (this.loop && !audio.paused && audio.currentTime >= this.loop.end) {
+      audio.currentTime = this.loop.start;
+    }
+  }
+
+  // Switch to the standby voice, which already holds the next track. The app
+  // sees this exactly like a normal end of track.
+  private handoff(fadeSeconds: number) {
+    const outgoing = this.current;
+    const incoming = this.standby;
+    this.finishFade();
+    this.setLoop(null);
+    this.active = 1 - this.active;
+    this.nextQueued = false;
+    this.watchBoundary();
+
+    if (fadeSeconds > 0 && this.context && incoming.gain && outgoing.gain) {
+      const now = this.context.currentTime;
+      incoming.gain.gain.cancelScheduledValues(now);
+      incoming.gain.gain.setValueAtTime(0, now);
+      incoming.gain.gain.linearRampToValueAtTime(1, now + fadeSeconds);
+      outgoing.gain.gain.cancelScheduledValues(now);
+      outgoing.gain.gain.setValueAtTime(outgoing.gain.gain.value, now);
+      outgoing.gain.gain.linearRampToValueAtTime(0, now + fadeSeconds);
+      this.fading = outgoing;
+      this.fadeTimer = setTimeout(() => this.finishFade(), fadeSeconds * 1000);
+    } else {
+      outgoing.audio.pause();
+      this.setGain(incoming, 1);
+    }
+
+    incoming.audio.play().catch(e => console.error("Handoff playback failed:", e));
+
+    if (this.onDurationChange && this.length(incoming)) this.onDurationChange(this.length(incoming));
+    if (this.onTimeUpdate) this.onTimeUpdate(this.position(incoming));
+    if (this.onEnded) this.onEnded();
+  }
+
+  private finishFade() {
+    if (this.fadeTimer) {
+      clearTimeout(this.fadeTimer);
+      this.fadeTimer = null;
+    }
+    if (this.fading) {
+      const voice = this.fading;
+      this.fading = null;
+      this.setVoiceSource(voice, null);
+      this.setGain(voice, 1);
+    }
+  }
+
+  load(src: string, startAt = 0, replayGain?: ReplayGainInfo, range: PlayRange = WHOLE_FILE) {
+    const current = this.current;
+    this.inPlaceNext = null;
+
+    if (current.src === src) {
+      if (sameRange(current.range, range)) {
+        // Already playing it: the engine handed off to this track on its own.
+        // A range track stopped at its end has to be taken back to its start.
+        if (startAt > 0 || (range.end !== null && current.audio.currentTime >= range.end)) this.seek(startAt);
+        return;
+      }
+      // Another track of the same file: no need to load it again
+      this.setLoop(null);
+      current.range = range;
+      current.replayGain = replayGain;
+      this.applyReplayGain(current);
+      this.seek(startAt);
+      this.watchBoundary();
+      if (this.onDurationChange && this.length(current)) this.onDurationChange(this.length(current));
+      return;
+    }
+
+    this.finishFade();
+    this.setLoop(null);
+    const previous = current;
+
+    if (this.nextQueued && this.standby.src === src && sameRange(this.standby.range, range)) {
+      // Preloaded: just switch voices
+      this.active = 1 - this.active;
+      this.nextQueued = false;
+      this.setVoiceSource(previous, null);
+      this.setGain(this.current, 1);
+      this.watchBoundary();
+      if (startAt > 0) this.seek(startAt);
+      if (this.onDurationChange && this.length(this.current)) {
+        this.onDurationChange(this.length(this.current));
+      }
+      return;
+    }
+
+    // Seeking only works once metadata is in, so resume positions are applied then
+    previous.audio.pause();
+    this.setGain(previous, 1);
+    this.setVoiceSource(previous, src, startAt, replayGain, range);
+    this.watchBoundary();
+  }
+
+  /**
+   * Load the track expected to play next into the standby voice, so it can
+   * start without a gap (or crossfade in) when the current one ends.
+   */
+  preload(src: string, replayGain?: ReplayGainInfo, range: PlayRange = WHOLE_FILE) {
+    if (this.current.src === src) {
+      // Another track of the playing file; the same one is left to the app
+      if (!sameRange(this.current.range, range)) {
+        this.clearPreload();
+        this.inPlaceNext = { range, replayGain };
+      }
+      return;
+    }
+    this.inPlaceNext = null;
+    if (this.nextQueued && this.standby.src === src && sameRange(this.standby.range, range)) return;
+    if (this.fading === this.standby) this.finishFade();
+    this.setVoiceSource(this.standby, src, 0, replayGain, range);
+    this.nextQueued = true;
+  }
+
+  /** Forget the preloaded track, e.g. because the queue changed */
+  clearPreload() {
+    this.inPlaceNext = null;
+    if (!this.nextQueued) return;
+    this.nextQueued = false;
+    this.setVoiceSource(this.standby, null);
+  }
+
+  /** Seconds to crossfade between tracks; 0 means a straight gapless handoff */
+  setCrossfade(seconds: number) {
+    this.crossfade = Math.max(0, seconds);
+  }
+
+  setReplayGain(settings: ReplayGainSettings) {
+    this.replayGainSettings = settings;
+    for (const voice of this.voices) this.applyReplayGain(voice);
+  }
+
+  /** Band gains and preamp in dB; a disabled EQ leaves the signal untouched */
+  setEqualizer({ enabled, preamp, bands }: { enabled: boolean; preamp: number; bands: number[] }) {
+    if (!this.context || !this.preamp) return;
+    const now = this.context.currentTime;
+    // Short time constant avoids zipper noise while dragging sliders
+    this.preamp.gain.setTargetAtTime(enabled ? Math.pow(10, preamp / 20) : 1, now, 0.02);
+    this.filters.forEach((filter, i) => {
+      filter.gain.setTargetAtTime(enabled ? bands[i] ?? 0 : 0, now, 0.02);
+    });
+  }
+
+  /** Playback speed (0.5 to 2), optionally keeping the original pitch */
+  setPlaybackRate(rate: number, preservePitch: boolean) {
+    this.playbackRate = rate;
+    this.preservePitch = preservePitch;
+    for (const voice of this.voices) this.applyRate(voice);
+  }
+
+  /**
+   * Repeat the part of the current track between `start` and `end` (in
+   * seconds) until cleared with null. Changing tracks clears it too.
+   */
+  setLoop(loop: { start: number; end: number } | null) {
+    const offset = this.current.range.start;
+    this.loop = loop && loop.end > loop.start ? { start: loop.start + offset, end: loop.end + offset } : null;
+    if (this.loopTimer) {
+      clearInterval(this.loopTimer);
+      this.loopTimer = null;
+    }
+    if (this.loop) this.loopTimer = setInterval(() => this.checkLoop(), LOOP_CHECK_MS);
   }
 
   play() {
-    return this.audio.play();
+    if (this.context && this.context.state === "suspended") {
+      this.context.resume().catch(e => console.error("AudioContext resume failed:", e));
+    }
+    return this.current.audio.play();
   }
 
   pause() {
-    this.audio.pause();
+    this.finishFade();
+    this.current.audio.pause();
   }
 
   setVolume(volume: number) {
-    this.audio.volume = Math.max(0, Math.min(1, volume));
+    this.volume = Math.max(0, Math.min(1, volume));
+    if (this.master) {
+      this.master.gain.value = this.volume;
+    } else {
+      for (const voice of this.voices) voice.audio.volume = this.volume;
+    }
   }
 
   seek(time: number) {
-    this.audio.currentTime = time;
+    const { audio, range } = this.current;
+    const target = range.start + time;
+    if (audio.readyState < HTMLMediaElement.HAVE_METADATA) {
+      this.current.pendingSeek = target > 0 ? target : null;
+      return;
+    }
+    audio.currentTime = target;
+  }
+
+  /** Null when Web Audio isn't available */
+  getAnalysers(): EngineAnalysers | null {
+    return this.analysers;
   }
 
   setHandlers(
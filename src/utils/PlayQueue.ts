@@ -0,0 +1,201 @@
+export type RepeatMode = "off" | "all" | "one";
+
+/**
+ * Decides which playlist index plays next. Every navigation path (end of
+ * track, transport buttons, keyboard, media keys) asks this model instead of
+ * doing its own index arithmetic, so repeat and shuffle behave the same
+ * everywhere.
+ *
+ * In shuffle mode each track plays once per cycle. The order actually played
+ * is kept as a history so Previous walks back through it and Next replays it
+ * forwards before drawing new tracks.
+ */
+export class PlayQueue {
+  private length = 0;
+  private repeat: RepeatMode = "off";
+  private shuffle = false;
+
+  // Shuffle state
+  private history: number[] = [];
+  private historyPos = -1;
+  private remaining = new Set<number>();
+  // Drawn by peekNext and appended to history, but not played yet
+  private peeked: number | null = null;
+
+  getRepeat() {
+    return this.repeat;
+  }
+
+  setRepeat(mode: RepeatMode) {
+    this.repeat = mode;
+  }
+
+  isShuffled() {
+    return this.shuffle;
+  }
+
+  setShuffle(enabled: boolean, current: number) {
+    this.shuffle = enabled;
+    this.resetShuffle(current);
+  }
+
+  /** Start over with a different list, e.g. when playback moves to another playlist */
+  reset(length: number, current = -1) {
+    this.length = length;
+    this.resetShuffle(current);
+  }
+
+  /** Playlist grew or shrank without reordering (e.g. tracks appended) */
+  setLength(length: number) {
+    if (length > this.length) {
+      for (let i = this.length; i < length; i++) this.remaining.add(i);
+    } else if (length < this.length) {
+      this.history = this.history.filter(i => i < length);
+      if (this.peeked !== null && this.peeked >= length) this.peeked = null;
+      this.historyPos = Math.min(this.historyPos, this.history.length - 1);
+      this.remaining.forEach(i => { if (i >= length) this.remaining.delete(i); });
+    }
+    this.length = length;
+  }
+
+  /** Tracks at these indices were removed; shift everything after them down */
+  removeIndices(removed: number[]) {
+    if (removed.length === 0) return;
+    const gone = new Set(removed);
+    const sorted = [...gone].sort((a, b) => a - b);
+    const shift = (i: number) => {
+      let n = 0;
+      while (n < sorted.length && sorted[n] < i) n++;
+      return i - n;
+    };
+
+    // If the current entry itself was removed, stay on the one before it
+    const keptBefore = this.history.slice(0, this.historyPos + 1).filter(i => !gone.has(i)).length;
+    this.history = this.history.filter(i => !gone.has(i)).map(shift);
+    this.historyPos = keptBefore - 1;
+    this.remaining = new Set([...this.remaining].filter(i => !gone.has(i)).map(shift));
+    if (this.peeked !== null) this.peeked = gone.has(this.peeked) ? null : shift(this.peeked);
+    this.length = Math.max(0, this.length - gone.size);
+  }
+
+  /** Tracks were reordered; `order[newIndex]` is the index the track had before */
+  reorder(order: number[]) {
+    const moved = new Map(order.map((oldIndex, newIndex) => [oldIndex, newIndex]));
+    const remap = (i: number) => moved.get(i) ?? i;
+    this.history = this.history.map(remap);
+    this.remaining = new Set([...this.remaining].map(remap));
+    if (this.peeked !== null) this.peeked = remap(this.peeked);
+  }
+
+  /** Record that `index` is now playing, however it was chosen */
+  visit(index: number) {
+    if (!this.shuffle || index < 0) return;
+    if (this.history[this.historyPos] === index) return;
+    // Jumping to a track discards the forward history, like a browser. A
+    // track that was only peeked at goes back into the pool.
+    if (this.peeked !== null && this.history.lastIndexOf(this.peeked) > this.historyPos) {
+      this.remaining.add(this.peeked);
+    }
+    this.peeked = null;
+    this.history = this.history.slice(0, this.historyPos + 1);
+    this.history.push(index);
+    this.historyPos = this.history.length - 1;
+    this.remaining.delete(index);
+  }
+
+  /**
+   * Index to play after `current`, or null to stop. `auto` is true when the
+   * current track simply ran out, which is the only case repeat-one applies.
+   */
+  next(current: number, auto = false): number | null {
+    if (this.length === 0) return null;
+    if (auto && this.repeat === "one" && current >= 0) return current;
+    const wrap = this.repeat !== "off";
+
+    if (!this.shuffle) {
+      if (current + 1 < this.length) return current + 1;
+      return wrap ? 0 : null;
+    }
+
+    if (this.historyPos < this.history.length - 1) {
+      this.historyPos++;
+      if (this.historyPos === this.history.length - 1) this.peeked = null;
+      return this.history[this.historyPos];
+    }
+
+    const pick = this.draw(current, wrap);
+    if (pick === null) return null;
+    this.history.push(pick);
+    this.historyPos = this.history.length - 1;
+    return pick;
+  }
+
+  /**
+   * What `next(current, true)` will return, without moving. In shuffle mode
+   * the pick is made now and kept, so preloading and playback agree.
+   */
+  peekNext(current: number): number | null {
+    if (this.length === 0) return null;
+    if (this.repeat === "one" && current >= 0) return current;
+    const wrap = this.repeat !== "off";
+
+    if (!this.shuffle) {
+      if (current + 1 < this.length) return current + 1;
+      return wrap ? 0 : null;
+    }
+
+    if (this.historyPos < this.history.length - 1) {
+      return this.history[this.historyPos + 1];
+    }
+
+    const pick = this.draw(current, wrap);
+    if (pick !== null) {
+      this.history.push(pick);
+      this.peeked = pick;
+    }
+    return pick;
+  }
+
+  /** Index to play before `current`, or null if there is nothing to go back to */
+  previous(current: number): number | null {
+    if (this.length === 0) return null;
+
+    if (this.shuffle) {
+      if (this.historyPos > 0) {
+        this.historyPos--;
+        return this.history[this.historyPos];
+      }
+      return null;
+    }
+
+    if (current > 0) return current - 1;
+    return this.repeat !== "off" ? this.length - 1 : null;
+  }
+
+  // Take a random unplayed track, starting a new cycle if allowed
+  private draw(current: number, wrap: boolean): number | null {
+    if (this.remaining.size === 0) {
+      if (!wrap) return null;
+      // Avoid playing the same track twice in a row across cycles
+      this.remaining = new Set(Array.from({ length: this.length }, (_, i) => i));
+      if (this.length > 1) this.remaining.delete(current);
+    }
+
+    const pool = [...this.remaining];
+    const pick = pool[Math.floor(Math.random() * pool.length)];
+    this.remaining.delete(pick);
+    return pick;
+  }
+
+  private resetShuffle(current: number) {
+    this.remaining = new Set(Array.from({ length: this.length }, (_, i) => i));
+    this.history = [];
+    this.historyPos = -1;
+    this.peeked = null;
+    if (current >= 0 && current < this.length) {
+      this.history.push(current);
+      this.historyPos = 0;
+      this.remaining.delete(current);
+    }
+  }
+}
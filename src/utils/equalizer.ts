@@ -0,0 +1,53 @@
+// Ten-band graphic equalizer: band layout and presets. The filters themselves
+// live in AudioEngine; this module only deals with gain values in dB.
+
+export const EQ_FREQUENCIES = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+export const EQ_MAX_GAIN = 12;
+export const EQ_MIN_GAIN = -12;
+
+export interface EqPreset {
+  name: string;
+  preamp: number;
+  bands: number[];
+}
+
+export interface EqState {
+  enabled: boolean;
+  // Name of the preset the values came from, or null once edited by hand
+  preset: string | null;
+  preamp: number;
+  bands: number[];
+}
+
+export const BUILTIN_PRESETS: EqPreset[] = [
+  { name: "Flat", preamp: 0, bands: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0] },
+  { name: "Bass Boost", preamp: -5, bands: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0] },
+  { name: "Bass Reducer", preamp: 0, bands: [-6, -5, -4, -2, 0, 0, 0, 0, 0, 0] },
+  { name: "Treble Boost", preamp: -5, bands: [0, 0, 0, 0, 0, 1, 2, 4, 5, 6] },
+  { name: "Vocal", preamp: -3, bands: [-2, -2, -1, 1, 3, 4, 3, 1, 0, -1] },
+  { name: "Loudness", preamp: -5, bands: [6, 4, 1, 0, -1, 0, -1, 1, 4, 5] },
+  { name: "Rock", preamp: -4, bands: [5, 4, 2, -1, -2, -1, 2, 3, 4, 4] },
+  { name: "Electronic", preamp: -4, bands: [5, 4, 1, 0, -2, 1, 0, 1, 4, 5] },
+  { name: "Acoustic", preamp: -3, bands: [4, 3, 2, 1, 1, 1, 2, 3, 3, 2] },
+  { name: "Spoken Word", preamp: -2, bands: [-4, -3, -1, 1, 3, 4, 4, 2, 0, -3] }
+];
+
+export const DEFAULT_EQ: EqState = {
+  enabled: false,
+  preset: "Flat",
+  preamp: 0,
+  bands: BUILTIN_PRESETS[0].bands
+};
+
+export const clampGain = (db: number) =>
+  Math.max(EQ_MIN_GAIN, Math.min(EQ_MAX_GAIN, Number.isFinite(db) ? db : 0));
+
+// Stored settings may come from an older or hand-edited file
+export const normalizeBands = (bands: unknown): number[] =>
+  EQ_FREQUENCIES.map((_, i) => clampGain(Array.isArray(bands) ? Number(bands[i]) : 0));
+
+export const formatFrequency = (hz: number) =>
+  hz >= 1000 ? `${hz / 1000}k` : `${hz}`;
+
+export const isBuiltinPreset = (name: string) =>
+  BUILTIN_PRESETS.some(p => p.name === name);
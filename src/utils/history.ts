@@ -0,0 +1,147 @@
+import { appDataDir, join } from "@tauri-apps/api/path";
+import { Track } from "../types";
+import { appendText, hasFile, readJson, writeJson } from "./storage";
+import { trackKey } from "./playlists";
+
+// Listening history and per-track statistics, persisted as history.json.
+// Completed plays are also appended to an Audioscrobbler portable player
+// log (.scrobbler.log) for submitting later with an external tool.
+
+const HISTORY_FILE = "history.json";
+const SCROBBLE_LOG = ".scrobbler.log";
+// Oldest plays are dropped beyond this; the per-track stats keep counting
+const MAX_PLAYS = 2000;
+
+// Scrobbler rules: a play counts after half the track or four minutes,
+// whichever comes first, and tracks under 30 seconds never count
+const MAX_LISTEN_SECONDS = 240;
+const MIN_TRACK_SECONDS = 30;
+
+export interface PlayRecord {
+  path: string;
+  // Start in the file, for a track of a CUE sheet
+  start?: number;
+  title: string;
+  artist?: string;
+  album?: string;
+  trackNumber?: number;
+  duration?: number;
+  // When the play started, in ms since the epoch
+  playedAt: number;
+}
+
+export interface TrackStats {
+  title: string;
+  artist?: string;
+  plays: number;
+  skips: number;
+  lastPlayed?: number;
+}
+
+export interface History {
+  // Newest first
+  plays: PlayRecord[];
+  // By track key, so copies of a track in different playlists share them
+  stats: Record<string, TrackStats>;
+}
+
+export const EMPTY_HISTORY: History = { plays: [], stats: {} };
+
+/** Seconds of listening after which a play counts, or null if it never does */
+export const listenThreshold = (duration: number): number | null =>
+  duration >= MIN_TRACK_SECONDS ? Math.min(duration / 2, MAX_LISTEN_SECONDS) : null;
+
+export async function loadHistory(): Promise<History> {
+  const stored = await readJson<Partial<History>>(HISTORY_FILE);
+  return {
+    plays: Array.isArray(stored?.plays) ? stored.plays : [],
+    stats: stored?.stats && typeof stored.stats === "object" ? stored.stats : {}
+  };
+}
+
+export async function saveHistory(history: History): Promise<void> {
+  await writeJson(HISTORY_FILE, history);
+}
+
+const statsFor = (history: History, track: Track): TrackStats => {
+  const stats = history.stats[trackKey(track)];
+  return {
+    // Follow tag edits
+    title: track.title,
+    artist: track.artist,
+    plays: stats?.plays ?? 0,
+    skips: stats?.skips ?? 0,
+    lastPlayed: stats?.lastPlayed
+  };
+};
+
+export function recordPlay(history: History, record: PlayRecord, track: Track): History {
+  const stats = statsFor(history, track);
+  return {
+    plays: [record, ...history.plays].slice(0, MAX_PLAYS),
+    stats: {
+      ...history.stats,
+      [trackKey(track)]: { ...stats, plays: stats.plays + 1, lastPlayed: record.playedAt }
+    }
+  };
+}
+
+export function recordSkip(history: History, track: Track): History {
+  const stats = statsFor(history, track);
+  return { ...history, stats: { ...history.stats, [trackKey(track)]: { ...stats, skips: stats.skips + 1 } } };
+}
+
+export const playRecord = (track: Track, playedAt: number, duration: number): PlayRecord => ({
+  path: track.path,
+  start: track.start,
+  title: track.title,
+  artist: track.artist,
+  album: track.album,
+  trackNumber: track.trackNumber,
+  duration: Math.round(duration),
+  playedAt
+});
+
+/** File and start of a track from its key in the stats */
+export function parseTrackKey(key: string): { path: string; start?: number } {
+  const match = key.match(/^(.*)#(\d+(?:\.\d+)?)$/);
+  return match ? { path: match[1], start: Number(match[2]) } : { path: key };
+}
+
+/** Track keys by play count, most played first; ties go to the most recent */
+export function mostPlayed(history: History): [string, TrackStats][] {
+  return Object.entries(history.stats)
+    .filter(([, stats]) => stats.plays > 0)
+    .sort(([, a], [, b]) => b.plays - a.plays || (b.lastPlayed ?? 0) - (a.lastPlayed ?? 0));
+}
+
+// Fields are tab separated, so tabs and line breaks can't appear in them
+const field = (value?: string | number) => (value === undefined ? "" : String(value).replace(/[\t\r\n]+/g, " "));
+
+function scrobbleLine(record: PlayRecord): string {
+  return [
+    field(record.artist),
+    field(record.album),
+    field(record.title),
+    field(record.trackNumber),
+    field(record.duration),
+    // L: listened (as opposed to S, skipped)
+    "L",
+    field(Math.floor(record.playedAt / 1000)),
+    // MusicBrainz track id, unknown
+    ""
+  ].join("\t");
+}
+
+/** Append a completed play to the scrobble log, starting the file if needed */
+export async function appendScrobble(record: PlayRecord): Promise<void> {
+  let text = scrobbleLine(record) + "\n";
+  if (!(await hasFile(SCROBBLE_LOG))) {
+    text = `#AUDIOSCROBBLER/1.1\n#TZ/UTC\n#CLIENT/MinPlayer\n${text}`;
+  }
+  await appendText(SCROBBLE_LOG, text);
+}
+
+export async function scrobbleLogPath(): Promise<string> {
+  return join(await appDataDir(), SCROBBLE_LOG);
+}
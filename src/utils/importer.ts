@@ -0,0 +1,133 @@
+import { Channel, convertFileSrc, invoke } from "@tauri-apps/api/core";
+import { AudioMetadata, LibraryTrack, ReplayGainInfo, Track } from "../types";
+import { newId } from "./playlists";
+
+// Streams files and folders into the playlist through the backend's
+// import_paths command. Folders are walked recursively in Rust and tracks
+// arrive one folder at a time, already ordered by disc and track number.
+// Their tags come from the library, so files seen before aren't read again.
+
+type ImportEvent =
+  | { event: "rejected"; data: RejectedPaths }
+  | { event: "started"; data: { total: number } }
+  | { event: "tracks"; data: { tracks: LibraryTrack[] } }
+  | { event: "progress"; data: { done: number; total: number } }
+  | { event: "finished"; data: { total: number } };
+
+/** Paths outside the music folders, and the folders that would let them in */
+export interface RejectedPaths {
+  paths: string[];
+  folders: string[];
+}
+
+export interface ImportResult {
+  count: number;
+  rejected: RejectedPaths | null;
+}
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+}
+
+// Backend sends null for absent tags; keep only what's actually there
+const replayGainFromMetadata = (metadata: AudioMetadata | null): ReplayGainInfo | undefined => {
+  if (!metadata) return undefined;
+  const info: ReplayGainInfo = {
+    trackGain: metadata.replayGainTrackGain ?? undefined,
+    trackPeak: metadata.replayGainTrackPeak ?? undefined,
+    albumGain: metadata.replayGainAlbumGain ?? undefined,
+    albumPeak: metadata.replayGainAlbumPeak ?? undefined
+  };
+  return Object.values(info).some(v => v !== undefined) ? info : undefined;
+};
+
+// Tag fields of a Track, as shown in the playlist and the track info panel
+export const tagsFromMetadata = (path: string, metadata: AudioMetadata | null) => {
+  const name = path.split(/[\\/]/).pop()?.replace(/\.[^/.]+$/, "") || "Unknown Track";
+  return {
+    title: metadata?.title || name,
+    artist: metadata?.artist || "Unknown Artist",
+    album: metadata?.album ?? undefined,
+    albumArtist: metadata?.albumArtist ?? undefined,
+    trackNumber: metadata?.trackNumber ?? undefined,
+    discNumber: metadata?.discNumber ?? undefined,
+    year: metadata?.year ?? undefined,
+    genre: metadata?.genre ?? undefined,
+    cover: metadata?.cover ?? undefined
+  };
+};
+
+export const trackFromMetadata = (path: string, metadata: AudioMetadata | null): Track => ({
+  id: newId(),
+  path: path,
+  ...tagsFromMetadata(path, metadata),
+  duration: metadata?.duration ?? undefined,
+  bitrate: metadata?.bitrate ?? undefined,
+  replayGain: replayGainFromMetadata(metadata)
+});
+
+/** Cached cover thumbnails are served by the asset protocol */
+export const thumbnailUrl = (path: string): string => convertFileSrc(path);
+
+// Tag fields with the cover as the cached thumbnail rather than inlined
+export const tagsFromLibrary = ({ path, metadata, thumbnail }: LibraryTrack) => ({
+  ...tagsFromMetadata(path, metadata),
+  cover: thumbnail ? thumbnailUrl(thumbnail) : undefined
+});
+
+export const trackFromLibrary = (track: LibraryTrack): Track => ({
+  ...trackFromMetadata(track.path, track.metadata),
+  ...tagsFromLibrary(track),
+  start: track.start ?? undefined,
+  end: track.end ?? undefined
+});
+
+/**
+ * Import files and folders. `onTracks` is called for every batch as it
+ * arrives; resolves with the number of tracks imported and whatever was
+ * skipped for being outside the music folders.
+ */
+export async function importPaths(
+  paths: string[],
+  onTracks: (tracks: Track[]) => void,
+  onProgress: (progress: ImportProgress | null) => void
+): Promise<ImportResult> {
+  let done = 0;
+  let total = 0;
+  // Tracks actually delivered: files that fail to read drop out, and a
+  // file with a CUE sheet turns into several
+  let imported = 0;
+  let rejected: RejectedPaths | null = null;
+
+  const channel = new Channel<ImportEvent>();
+  channel.onmessage = (message) => {
+    switch (message.event) {
+      case "rejected":
+        rejected = message.data;
+        break;
+      case "started":
+        total = message.data.total;
+        onProgress(total > 0 ? { done: 0, total } : null);
+        break;
+      case "progress":
+        done = message.data.done;
+        onProgress({ done, total });
+        break;
+      case "tracks":
+        imported += message.data.tracks.length;
+        onTracks(message.data.tracks.map(trackFromLibrary));
+        break;
+      case "finished":
+        onProgress(null);
+        break;
+    }
+  };
+
+  try {
+    await invoke("import_paths", { paths, onEvent: channel });
+  } finally {
+    onProgress(null);
+  }
+  return { count: imported, rejected };
+}
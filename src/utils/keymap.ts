@@ -0,0 +1,238 @@
+// Keyboard shortcuts: every command the keyboard can trigger, its default
+// keys, and the user's rebindings on top of them.
+//
+// A key combination ("chord") is written as modifiers and a KeyboardEvent
+// code joined with "+", e.g. "Mod+Shift+KeyR". Mod is Cmd on macOS and Ctrl
+// elsewhere. Codes are layout independent, like the rest of the shortcuts.
+
+export type CommandId =
+  | "playPause"
+  | "nextTrack"
+  | "previousTrack"
+  | "seekBack"
+  | "seekForward"
+  | "seekBackSecond"
+  | "seekForwardSecond"
+  | "seekBackFrame"
+  | "seekForwardFrame"
+  | "volumeUp"
+  | "volumeDown"
+  | "mute"
+  | "loopStart"
+  | "loopEnd"
+  | "loopClear"
+  | "slower"
+  | "faster"
+  | "normalSpeed"
+  | "focusUp"
+  | "focusDown"
+  | "extendUp"
+  | "extendDown"
+  | "playFocused"
+  | "selectAll"
+  | "deleteSelected"
+  | "trackInfo"
+  | "revealInFileManager"
+  | "filter"
+  | "addFolder"
+  | "showLibrary"
+  | "toggleLyrics"
+  | "toggleMiniPlayer"
+  | "showShortcuts";
+
+export interface Command {
+  id: CommandId;
+  label: string;
+  group: string;
+  keys: string[];
+}
+
+export const COMMANDS: Command[] = [
+  { id: "playPause", label: "Play/Pause", group: "Playback", keys: ["Space"] },
+  { id: "nextTrack", label: "Next track", group: "Playback", keys: ["Mod+ArrowRight"] },
+  { id: "previousTrack", label: "Previous track", group: "Playback", keys: ["Mod+ArrowLeft"] },
+  { id: "seekBack", label: "Seek backward", group: "Playback", keys: ["ArrowLeft"] },
+  { id: "seekForward", label: "Seek forward", group: "Playback", keys: ["ArrowRight"] },
+  { id: "seekBackSecond", label: "Seek back 1 second", group: "Playback", keys: ["Shift+ArrowLeft"] },
+  { id: "seekForwardSecond", label: "Seek forward 1 second", group: "Playback", keys: ["Shift+ArrowRight"] },
+  { id: "seekBackFrame", label: "Seek back one frame", group: "Playback", keys: ["Alt+ArrowLeft"] },
+  { id: "seekForwardFrame", label: "Seek forward one frame", group: "Playback", keys: ["Alt+ArrowRight"] },
+  { id: "volumeUp", label: "Volume up", group: "Playback", keys: ["Mod+ArrowUp"] },
+  { id: "volumeDown", label: "Volume down", group: "Playback", keys: ["Mod+ArrowDown"] },
+  { id: "mute", label: "Mute", group: "Playback", keys: ["KeyM"] },
+  { id: "loopStart", label: "Set loop start (A)", group: "Loop & Speed", keys: ["BracketLeft"] },
+  { id: "loopEnd", label: "Set loop end (B)", group: "Loop & Speed", keys: ["BracketRight"] },
+  { id: "loopClear", label: "Clear loop", group: "Loop & Speed", keys: ["Backslash"] },
+  { id: "slower", label: "Slower", group: "Loop & Speed", keys: ["Minus"] },
+  { id: "faster", label: "Faster", group: "Loop & Speed", keys: ["Equal"] },
+  { id: "normalSpeed", label: "Normal speed", group: "Loop & Speed", keys: ["Digit0"] },
+  { id: "focusUp", label: "Focus previous track", group: "Playlist", keys: ["ArrowUp"] },
+  { id: "focusDown", label: "Focus next track", group: "Playlist", keys: ["ArrowDown"] },
+  { id: "extendUp", label: "Extend selection up", group: "Playlist", keys: ["Shift+ArrowUp"] },
+  { id: "extendDown", label: "Extend selection down", group: "Playlist", keys: ["Shift+ArrowDown"] },
+  { id: "playFocused", label: "Play focused track", group: "Playlist", keys: ["Enter", "NumpadEnter"] },
+  { id: "selectAll", label: "Select all", group: "Playlist", keys: ["Mod+KeyA"] },
+  { id: "deleteSelected", label: "Remove selected tracks", group: "Playlist", keys: ["Delete", "Backspace"] },
+  { id: "trackInfo", label: "Track info", group: "Playlist", keys: ["Mod+KeyI"] },
+  { id: "revealInFileManager", label: "Reveal in file manager", group: "Playlist", keys: ["Mod+Shift+KeyR"] },
+  { id: "filter", label: "Filter playlist", group: "Playlist", keys: ["Mod+KeyF"] },
+  { id: "addFolder", label: "Add folder", group: "App", keys: ["Mod+KeyO"] },
+  { id: "showLibrary", label: "Library", group: "App", keys: ["Mod+KeyL"] },
+  { id: "toggleLyrics", label: "Show lyrics", group: "App", keys: ["Mod+Shift+KeyL"] },
+  { id: "toggleMiniPlayer", label: "Mini player", group: "App", keys: ["Mod+Shift+KeyM"] },
+  { id: "showShortcuts", label: "Keyboard shortcuts", group: "App", keys: ["Shift+Slash"] }
+];
+
+/** Rebound commands only; everything else keeps its default keys */
+export type KeymapOverrides = Partial<Record<CommandId, string[]>>;
+
+export type Keymap = Record<CommandId, string[]>;
+
+export const isCommandId = (value: unknown): value is CommandId => COMMANDS.some(c => c.id === value);
+
+export function resolveKeymap(overrides: KeymapOverrides): Keymap {
+  const keymap = {} as Keymap;
+  for (const command of COMMANDS) keymap[command.id] = overrides[command.id] ?? command.keys;
+  return keymap;
+}
+
+/** Drop unknown commands and malformed entries from stored overrides */
+export function normalizeOverrides(value: unknown): KeymapOverrides {
+  const overrides: KeymapOverrides = {};
+  if (!value || typeof value !== "object") return overrides;
+  for (const [id, keys] of Object.entries(value)) {
+    if (isCommandId(id) && Array.isArray(keys)) overrides[id] = keys.filter(k => typeof k === "string");
+  }
+  return overrides;
+}
+
+/** Overrides for a keymap, leaving out commands that are back to their defaults */
+export function overridesFor(keymap: Keymap): KeymapOverrides {
+  const overrides: KeymapOverrides = {};
+  for (const command of COMMANDS) {
+    const keys = keymap[command.id];
+    if (keys.length !== command.keys.length || keys.some((k, i) => k !== command.keys[i])) {
+      overrides[command.id] = keys;
+    }
+  }
+  return overrides;
+}
+
+const MODIFIER_CODES = ["MetaLeft", "MetaRight", "ControlLeft", "ControlRight", "AltLeft", "AltRight", "ShiftLeft", "ShiftRight"];
+
+/** The chord for a key press, or null for a lone modifier */
+export function chordFromEvent(e: KeyboardEvent): string | null {
+  if (!e.code || MODIFIER_CODES.includes(e.code)) return null;
+  const parts: string[] = [];
+  if (e.metaKey || e.ctrlKey) parts.push("Mod");
+  if (e.altKey) parts.push("Alt");
+  if (e.shiftKey) parts.push("Shift");
+  parts.push(e.code);
+  return parts.join("+");
+}
+
+/** The command bound to a chord, if any */
+export function commandForChord(keymap: Keymap, chord: string): CommandId | null {
+  const command = COMMANDS.find(c => keymap[c.id].includes(chord));
+  return command ? command.id : null;
+}
+
+/** Commands sharing a chord with another command */
+export function findConflicts(keymap: Keymap): Set<CommandId> {
+  const owners = new Map<string, CommandId[]>();
+  for (const command of COMMANDS) {
+    for (const chord of keymap[command.id]) owners.set(chord, [...(owners.get(chord) ?? []), command.id]);
+  }
+  const conflicts = new Set<CommandId>();
+  for (const ids of owners.values()) {
+    if (ids.length > 1) ids.forEach(id => conflicts.add(id));
+  }
+  return conflicts;
+}
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  BracketLeft: "[",
+  BracketRight: "]",
+  Backslash: "\\",
+  Minus: "-",
+  Equal: "=",
+  Slash: "/",
+  Comma: ",",
+  Period: ".",
+  Semicolon: ";",
+  Quote: "'",
+  Backquote: "`",
+  NumpadEnter: "Keypad Enter",
+  Escape: "Esc",
+  MediaPlayPause: "Play/Pause key",
+  MediaTrackNext: "Next key",
+  MediaTrackPrevious: "Previous key",
+  MediaStop: "Stop key"
+};
+
+/** What Mod is called on this platform */
+export const MOD_NAME = /Mac|iPhone|iPad/.test(navigator.userAgent) ? "Cmd" : "Ctrl";
+
+const MODIFIER_NAMES: Record<string, string> = { Mod: MOD_NAME, Alt: "Alt", Shift: "Shift" };
+
+/** A chord as shown to the user, e.g. "Cmd+Shift+R" (or "Ctrl+Shift+R") */
+export function formatChord(chord: string): string {
+  return chord
+    .split("+")
+    .map(part => MODIFIER_NAMES[part] ?? KEY_NAMES[part] ?? part.replace(/^(Key|Digit)/, ""))
+    .join("+");
+}
+
+/** A tooltip naming the first key bound to a command, e.g. "Lyrics (Cmd+Shift+L)" */
+export const withShortcut = (label: string, keys: string[]): string =>
+  keys.length > 0 ? `${label} (${formatChord(keys[0])})` : label;
+
+// Global shortcuts work while the app is in the background, and are
+// registered with the system rather than handled by the window. Only the
+// playback commands can be global, and the keys need a modifier (or be a
+// media key) so they don't swallow normal typing in other apps.
+
+export const GLOBAL_COMMANDS: CommandId[] = [
+  "playPause",
+  "nextTrack",
+  "previousTrack",
+  "seekBack",
+  "seekForward",
+  "volumeUp",
+  "volumeDown",
+  "mute"
+];
+
+export type GlobalShortcuts = Partial<Record<CommandId, string[]>>;
+
+export const DEFAULT_GLOBAL_SHORTCUTS: GlobalShortcuts = {
+  playPause: ["MediaPlayPause"],
+  nextTrack: ["MediaTrackNext"],
+  previousTrack: ["MediaTrackPrevious"]
+};
+
+const MEDIA_CODES = ["MediaPlayPause", "MediaTrackNext", "MediaTrackPrevious", "MediaStop"];
+
+/** Whether a chord is allowed as a global shortcut */
+export const canBeGlobal = (chord: string): boolean =>
+  MEDIA_CODES.includes(chord) || /^(Mod|Alt)\+/.test(chord);
+
+/** Drop non-global commands and unusable chords from stored global shortcuts */
+export function normalizeGlobalShortcuts(value: unknown): GlobalShortcuts {
+  const shortcuts: GlobalShortcuts = {};
+  if (!value || typeof value !== "object") return { ...DEFAULT_GLOBAL_SHORTCUTS };
+  for (const [id, keys] of Object.entries(value)) {
+    if (isCommandId(id) && GLOBAL_COMMANDS.includes(id) && Array.isArray(keys)) {
+      shortcuts[id] = keys.filter(k => typeof k === "string" && canBeGlobal(k));
+    }
+  }
+  return shortcuts;
+}
+
+/** A chord as a Tauri accelerator, e.g. "CommandOrControl+Shift+KeyR" */
+export const toAccelerator = (chord: string): string =>
+  chord.split("+").map(part => (part === "Mod" ? "CommandOrControl" : part)).join("+");
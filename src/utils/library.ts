@@ -0,0 +1,66 @@
+import { invoke } from "@tauri-apps/api/core";
+import { LibraryTrack, Track } from "../types";
+import { trackFromLibrary } from "./importer";
+
+// The backend's library: tags and cover thumbnails of everything in the
+// music folders, cached in SQLite and kept current by watching the folders.
+
+/** Payload is the LibraryStatus after a change */
+export const LIBRARY_EVENT = "library-changed";
+
+export interface LibraryStatus {
+  tracks: number;
+  scanning: boolean;
+}
+
+// Grouped by album artist, or artist for untagged albums
+export interface ArtistSummary {
+  name: string;
+  albums: number;
+  tracks: number;
+}
+
+export interface AlbumSummary {
+  title: string;
+  artist: string;
+  year: number | null;
+  tracks: number;
+  // Seconds
+  duration: number;
+  thumbnail: string | null;
+}
+
+export async function libraryStatus(): Promise<LibraryStatus> {
+  return invoke<LibraryStatus>("library_status");
+}
+
+/** Look for changes made while the folders weren't being watched */
+export async function rescanLibrary(): Promise<void> {
+  await invoke("rescan_library");
+}
+
+export async function listArtists(): Promise<ArtistSummary[]> {
+  return invoke<ArtistSummary[]>("library_artists");
+}
+
+/** Every album, or one artist's */
+export async function listAlbums(artist?: string): Promise<AlbumSummary[]> {
+  return invoke<AlbumSummary[]>("library_albums", { artist: artist ?? null });
+}
+
+/** Tracks of an artist and/or album, in disc and track order */
+export async function listTracks(query: { artist?: string; album?: string }): Promise<Track[]> {
+  const tracks = await invoke<LibraryTrack[]>("library_tracks", {
+    artist: query.artist ?? null,
+    album: query.album ?? null
+  });
+  return tracks.map(trackFromLibrary);
+}
+
+/**
+ * A single file as a Track, or with `start` the track of its CUE sheet
+ * starting there; rejects if it can't be played
+ */
+export async function libraryTrack(path: string, start?: number): Promise<Track> {
+  return trackFromLibrary(await invoke<LibraryTrack>("library_track", { path, start: start ?? null }));
+}
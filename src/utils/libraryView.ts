@@ -0,0 +1,94 @@
+import { Track } from "../types";
+
+// Filtering and sorting of the track list. This only changes what's shown:
+// rows keep their index in the playlist, so playback order stays as it is.
+
+export type OptionalColumn = "artist" | "album" | "year" | "bitrate" | "path";
+
+export type SortColumn = "index" | "title" | "duration" | OptionalColumn;
+
+export interface SortState {
+  column: SortColumn;
+  descending: boolean;
+}
+
+export interface PlaylistRow {
+  track: Track;
+  // Position in the playlist itself
+  index: number;
+}
+
+export const OPTIONAL_COLUMNS: { id: OptionalColumn; label: string }[] = [
+  { id: "artist", label: "Artist" },
+  { id: "album", label: "Album" },
+  { id: "year", label: "Year" },
+  { id: "bitrate", label: "Bitrate" },
+  { id: "path", label: "Path" }
+];
+
+export const isOptionalColumn = (value: unknown): value is OptionalColumn =>
+  OPTIONAL_COLUMNS.some(c => c.id === value);
+
+// Case and accent insensitive, so "beyonce" finds "Beyoncé"
+const fold = (text: string) => text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+// Folded search text per track, so typing in the filter doesn't redo it for
+// every track on every keystroke. Edited tracks are new objects and miss.
+const haystacks = new WeakMap<Track, string>();
+
+/** Every word of the query has to appear in the title, artist or album */
+export const matchesFilter = (track: Track, words: string[]): boolean => {
+  let haystack = haystacks.get(track);
+  if (haystack === undefined) {
+    haystack = fold(`${track.title}\n${track.artist ?? ""}\n${track.album ?? ""}`);
+    haystacks.set(track, haystack);
+  }
+  return words.every(word => haystack.includes(word));
+};
+
+export const filterWords = (query: string): string[] =>
+  fold(query).split(/\s+/).filter(word => word !== "");
+
+const sortValue = (row: PlaylistRow, column: SortColumn): string | number | undefined => {
+  switch (column) {
+    case "index": return row.index;
+    case "title": return row.track.title;
+    case "duration": return row.track.duration;
+    case "artist": return row.track.artist;
+    case "album": return row.track.album;
+    case "year": return row.track.year;
+    case "bitrate": return row.track.bitrate;
+    case "path": return row.track.path;
+  }
+};
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+const compareRows = (a: PlaylistRow, b: PlaylistRow, sort: SortState): number => {
+  const va = sortValue(a, sort.column);
+  const vb = sortValue(b, sort.column);
+  // Rows without a value go last in either direction
+  const aEmpty = va === undefined || va === "";
+  const bEmpty = vb === undefined || vb === "";
+  if (aEmpty || bEmpty) return aEmpty === bEmpty ? a.index - b.index : aEmpty ? 1 : -1;
+
+  const order = typeof va === "number" && typeof vb === "number"
+    ? va - vb
+    : collator.compare(String(va), String(vb));
+  // Playlist order breaks ties, so albums stay in track order within an artist
+  return (sort.descending ? -order : order) || a.index - b.index;
+};
+
+/** Rows to show for the playlist, in display order */
+export function playlistRows(tracks: Track[], query: string, sort: SortState | null): PlaylistRow[] {
+  const words = filterWords(query);
+  const rows: PlaylistRow[] = [];
+  tracks.forEach((track, index) => {
+    if (words.length === 0 || matchesFilter(track, words)) rows.push({ track, index });
+  });
+  if (sort && sort.column !== "index") rows.sort((a, b) => compareRows(a, b, sort));
+  else if (sort?.descending) rows.reverse();
+  return rows;
+}
+
+export const formatBitrate = (kbps?: number) => (kbps ? `${kbps}k` : "");
@@ -0,0 +1,94 @@
+import { invoke } from "@tauri-apps/api/core";
+import { readJson, writeJson } from "./storage";
+
+// Lyrics for the current track, from a sidecar .lrc or the file's tags (read
+// by the backend), and the per-track timing offsets set in the lyrics view,
+// persisted as lyrics-offsets.json.
+
+const OFFSETS_FILE = "lyrics-offsets.json";
+
+export interface LyricLine {
+  // Seconds from the start of the file
+  time: number;
+  text: string;
+}
+
+export type Lyrics =
+  | { synced: true; lines: LyricLine[] }
+  | { synced: false; text: string };
+
+// [mm:ss], [mm:ss.xx] or [mm:ss:xx] at the start of a line; a line sung more
+// than once can carry several
+const TIME_TAG = /^\[(\d+):(\d{1,2})(?:[.:](\d{1,3}))?\]/;
+// [offset:+250], in ms; positive shows the lines earlier
+const OFFSET_TAG = /^\[offset:\s*([+-]?\d+)\s*\]/im;
+// Word timings of enhanced LRC, <mm:ss.xx>
+const WORD_TAG = /<\d+:\d{1,2}(?:[.:]\d{1,3})?>/g;
+
+const fraction = (digits?: string) => (digits ? parseInt(digits, 10) / Math.pow(10, digits.length) : 0);
+
+/**
+ * Parse LRC text into timed lines, sorted by time. Text without any time
+ * tags is unsynced and kept as it is.
+ */
+export function parseLyrics(text: string): Lyrics {
+  const offset = parseInt(text.match(OFFSET_TAG)?.[1] ?? "0", 10) / 1000;
+  const lines: LyricLine[] = [];
+
+  for (const raw of text.split(/\r?\n/)) {
+    let rest = raw.trim();
+    const times: number[] = [];
+    let match: RegExpMatchArray | null;
+    while ((match = rest.match(TIME_TAG))) {
+      times.push(parseInt(match[1], 10) * 60 + parseInt(match[2], 10) + fraction(match[3]));
+      rest = rest.slice(match[0].length);
+    }
+    const lineText = rest.replace(WORD_TAG, "").trim();
+    for (const time of times) lines.push({ time: Math.max(0, time - offset), text: lineText });
+  }
+
+  if (lines.length === 0) return { synced: false, text: text.trim() };
+  lines.sort((a, b) => a.time - b.time);
+  return { synced: true, lines };
+}
+
+/** The file's lyrics, or null if it has none */
+export async function loadLyrics(path: string): Promise<Lyrics | null> {
+  const text = await invoke<string | null>("get_lyrics", { path });
+  return text ? parseLyrics(text) : null;
+}
+
+/** Index of the line being sung at `time`, or -1 before the first one */
+export function activeLine(lines: LyricLine[], time: number): number {
+  let low = 0;
+  let high = lines.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (lines[mid].time <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+/** Seconds added to each line's time, by track key (`trackKey`); later is positive */
+export type LyricOffsets = Record<string, number>;
+
+export async function loadLyricOffsets(): Promise<LyricOffsets> {
+  const stored = await readJson<LyricOffsets>(OFFSETS_FILE);
+  const offsets: LyricOffsets = {};
+  if (stored && typeof stored === "object") {
+    for (const [path, offset] of Object.entries(stored)) {
+      if (typeof offset === "number" && Number.isFinite(offset)) offsets[path] = offset;
+    }
+  }
+  return offsets;
+}
+
+export async function saveLyricOffsets(offsets: LyricOffsets): Promise<void> {
+  await writeJson(OFFSETS_FILE, offsets);
+}
@@ -0,0 +1,27 @@
+import { invoke } from "@tauri-apps/api/core";
+
+// The folders the backend will play from and write tags to. The list itself
+// is saved in settings; the backend only holds it for the running app.
+
+export async function setMusicFolders(folders: string[]): Promise<void> {
+  await invoke("set_music_folders", { folders });
+}
+
+/** Music, Downloads, Documents and Desktop, for a first start */
+export async function defaultMusicFolders(): Promise<string[]> {
+  return invoke<string[]>("default_music_folders");
+}
+
+/** Resolves with the reason a file can't be played, or null if it can */
+export async function checkPlayable(path: string): Promise<string | null> {
+  try {
+    await invoke("check_playable", { path });
+    return null;
+  } catch (e) {
+    return String(e);
+  }
+}
+
+/** Folders added to a list, skipping ones already in it */
+export const withFolders = (current: string[], added: string[]): string[] =>
+  [...current, ...added.filter(folder => !current.includes(folder))];
@@ -0,0 +1,264 @@
+import { invoke } from "@tauri-apps/api/core";
+import { Track } from "../types";
+
+// Reading and writing M3U/M3U8 and PLS playlists. The file I/O goes through
+// the backend so playlists can live anywhere, not just in the fs scope.
+
+export type PlaylistFormat = "m3u8" | "pls";
+
+export interface PlaylistEntry {
+  path: string;
+  title?: string;
+  duration?: number;
+}
+
+export interface ParsedPlaylist {
+  entries: PlaylistEntry[];
+  // Lines that point at something we can't play, e.g. http streams
+  unsupported: string[];
+}
+
+const PLAYLIST_EXTENSIONS = [".m3u", ".m3u8", ".pls"];
+
+export const isPlaylistFile = (path: string): boolean =>
+  PLAYLIST_EXTENSIONS.some(ext => path.toLowerCase().endsWith(ext));
+
+// --- Path helpers (playlists come from both Windows and Unix machines) ---
+
+const isWindowsPath = (path: string) => /^[a-zA-Z]:[\\/]/.test(path) || path.startsWith("\\\\");
+
+const isAbsolutePath = (path: string) => path.startsWith("/") || isWindowsPath(path);
+
+const separatorOf = (path: string) => (isWindowsPath(path) || (path.includes("\\") && !path.includes("/")) ? "\\" : "/");
+
+const splitPath = (path: string) => path.split(/[\\/]+/).filter(part => part !== "");
+
+export const dirname = (path: string): string => {
+  const idx = Math.max(path.lastIndexOf("/"), path.lastIndexOf("\\"));
+  return idx <= 0 ? path.slice(0, idx + 1) : path.slice(0, idx);
+};
+
+const rootOf = (path: string): string => {
+  if (path.startsWith("\\\\")) return "\\\\";
+  const drive = path.match(/^[a-zA-Z]:/);
+  if (drive) return drive[0] + "\\";
+  return path.startsWith("/") ? "/" : "";
+};
+
+const normalize = (root: string, parts: string[], sep: string): string => {
+  const out: string[] = [];
+  for (const part of parts) {
+    if (part === ".") continue;
+    if (part === "..") out.pop();
+    else out.push(part);
+  }
+  return root + out.join(sep);
+};
+
+/** Resolve a playlist entry against the directory the playlist lives in */
+export const resolveEntryPath = (entry: string, playlistDir: string): string => {
+  if (entry.toLowerCase().startsWith("file://")) {
+    // file:///Users/me/a.mp3 or file:///C:/Music/a.mp3
+    // Segment by segment, so escaped separators and reserved characters
+    // (%2F, %23, %3F...) come out as the characters they stand for
+    let decoded = entry
+      .slice("file://".length)
+      .split("/")
+      .map(segment => {
+        try {
+          return decodeURIComponent(segment);
+        } catch {
+          // Malformed escapes; use the segment as written
+          return segment;
+        }
+      })
+      .join("/");
+    if (/^\/[a-zA-Z]:\//.test(decoded)) decoded = decoded.slice(1);
+    return decoded;
+  }
+  if (isAbsolutePath(entry)) return entry;
+
+  const sep = separatorOf(playlistDir);
+  const root = rootOf(playlistDir);
+  const baseParts = splitPath(playlistDir.slice(root.length));
+  return normalize(root, [...baseParts, ...splitPath(entry)], sep);
+};
+
+/** Path of `target` relative to `fromDir`, or null if they don't share a root */
+export const relativePath = (fromDir: string, target: string): string | null => {
+  const fromRoot = rootOf(fromDir);
+  const targetRoot = rootOf(target);
+  if (fromRoot.toLowerCase() !== targetRoot.toLowerCase()) return null;
+
+  const from = splitPath(fromDir.slice(fromRoot.length));
+  const to = splitPath(target.slice(targetRoot.length));
+  // Windows paths compare case-insensitively
+  const same = isWindowsPath(target)
+    ? (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+    : (a: string, b: string) => a === b;
+
+  let common = 0;
+  while (common < from.length && common < to.length && same(from[common], to[common])) common++;
+
+  const up = from.slice(common).map(() => "..");
+  return [...up, ...to.slice(common)].join(separatorOf(target));
+};
+
+// --- Parsing ---
+
+const isRemote = (entry: string) => /^[a-z][a-z0-9+.-]*:\/\//i.test(entry) && !entry.toLowerCase().startsWith("file://");
+
+export function parseM3U(text: string, playlistDir: string): ParsedPlaylist {
+  const entries: PlaylistEntry[] = [];
+  const unsupported: string[] = [];
+  let pending: { title?: string; duration?: number } = {};
+
+  for (const raw of text.replace(/^\uFEFF/, "").split(/\r?\n/)) {
+    const line = raw.trim();
+    if (line === "") continue;
+
+    if (line.startsWith("#")) {
+      // #EXTINF:<seconds>[ attributes],<display title>
+      const info = line.match(/^#EXTINF:\s*(-?[\d.]+)[^,]*,(.*)$/i);
+      if (info) {
+        const duration = parseFloat(info[1]);
+        pending = {
+          duration: duration > 0 ? duration : undefined,
+          title: info[2].trim() || undefined
+        };
+      }
+      continue;
+    }
+
+    if (isRemote(line)) {
+      unsupported.push(line);
+    } else {
+      entries.push({ path: resolveEntryPath(line, playlistDir), ...pending });
+    }
+    pending = {};
+  }
+
+  return { entries, unsupported };
+}
+
+export function parsePLS(text: string, playlistDir: string): ParsedPlaylist {
+  const files = new Map<number, PlaylistEntry>();
+  const unsupported: string[] = [];
+  const entry = (n: number) => {
+    if (!files.has(n)) files.set(n, { path: "" });
+    return files.get(n)!;
+  };
+
+  for (const raw of text.replace(/^\uFEFF/, "").split(/\r?\n/)) {
+    const match = raw.trim().match(/^(File|Title|Length)(\d+)\s*=\s*(.*)$/i);
+    if (!match) continue;
+    const [, key, num, value] = match;
+    const n = parseInt(num, 10);
+    switch (key.toLowerCase()) {
+      case "file":
+        entry(n).path = value;
+        break;
+      case "title":
+        entry(n).title = value || undefined;
+        break;
+      case "length": {
+        const length = parseFloat(value);
+        entry(n).duration = length > 0 ? length : undefined;
+        break;
+      }
+    }
+  }
+
+  const entries: PlaylistEntry[] = [];
+  for (const n of [...files.keys()].sort((a, b) => a - b)) {
+    const e = files.get(n)!;
+    if (!e.path) continue;
+    if (isRemote(e.path)) {
+      unsupported.push(e.path);
+    } else {
+      entries.push({ ...e, path: resolveEntryPath(e.path, playlistDir) });
+    }
+  }
+  return { entries, unsupported };
+}
+
+export function parsePlaylist(text: string, playlistPath: string): ParsedPlaylist {
+  const dir = dirname(playlistPath);
+  return playlistPath.toLowerCase().endsWith(".pls") ? parsePLS(text, dir) : parseM3U(text, dir);
+}
+
+// --- Writing ---
+
+const displayTitle = (track: Track) =>
+  track.artist && track.artist !== "Unknown Artist" ? `${track.artist} - ${track.title}` : track.title;
+
+const entryPath = (track: Track, playlistPath: string, relative: boolean) =>
+  (relative && relativePath(dirname(playlistPath), track.path)) || track.path;
+
+/** Some tracks are parts of a file split by a CUE sheet, which M3U and PLS can't express */
+export const hasRangeTracks = (tracks: Track[]): boolean => tracks.some(t => t.start !== undefined);
+
+// M3U and PLS entries are whole files. Consecutive tracks of a CUE sheet
+// become one entry for their file, titled after the album, so the file is
+// played once rather than once per track.
+function exportEntries(tracks: Track[]): Track[] {
+  const entries: Track[] = [];
+  for (const track of tracks) {
+    const last = entries[entries.length - 1];
+    if (track.start === undefined) {
+      entries.push(track);
+    } else if (last && last.start !== undefined && last.path === track.path) {
+      entries[entries.length - 1] = {
+        ...last,
+        duration: last.duration !== undefined && track.duration !== undefined ? last.duration + track.duration : undefined
+      };
+    } else {
+      entries.push({ ...track, title: track.album ?? track.title, artist: track.albumArtist ?? track.artist });
+    }
+  }
+  return entries;
+}
+
+export function serializeM3U(tracks: Track[], playlistPath: string, relative: boolean): string {
+  const lines = ["#EXTM3U"];
+  for (const track of exportEntries(tracks)) {
+    const duration = track.duration ? Math.round(track.duration) : -1;
+    // A comma in the title is fine, but line breaks would corrupt the file
+    lines.push(`#EXTINF:${duration},${displayTitle(track).replace(/[\r\n]+/g, " ")}`);
+    lines.push(entryPath(track, playlistPath, relative));
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function serializePLS(tracks: Track[], playlistPath: string, relative: boolean): string {
+  const lines = ["[playlist]"];
+  const entries = exportEntries(tracks);
+  entries.forEach((track, i) => {
+    const n = i + 1;
+    lines.push(`File${n}=${entryPath(track, playlistPath, relative)}`);
+    lines.push(`Title${n}=${displayTitle(track).replace(/[\r\n]+/g, " ")}`);
+    lines.push(`Length${n}=${track.duration ? Math.round(track.duration) : -1}`);
+  });
+  lines.push(`NumberOfEntries=${entries.length}`);
+  lines.push("Version=2");
+  return lines.join("\n") + "\n";
+}
+
+// --- File I/O ---
+
+export async function readPlaylistFile(path: string): Promise<ParsedPlaylist> {
+  const text = await invoke<string>("read_playlist", { path });
+  return parsePlaylist(text, path);
+}
+
+export async function writePlaylistFile(
+  path: string,
+  tracks: Track[],
+  format: PlaylistFormat,
+  relative: boolean
+): Promise<void> {
+  const contents = format === "pls"
+    ? serializePLS(tracks, path, relative)
+    : serializeM3U(tracks, path, relative);
+  await invoke("write_playlist", { path, contents });
+}
@@ -0,0 +1,70 @@
+import { Playlist, Track } from "../types";
+
+// Helpers for the named playlists shown in the sidebar
+
+export const newId = (): string => crypto.randomUUID();
+
+export const createPlaylist = (name: string, tracks: Track[] = []): Playlist => ({
+  id: newId(),
+  name,
+  tracks
+});
+
+/** `base`, or `base 2`, `base 3`… whichever isn't taken yet */
+export const uniqueName = (base: string, playlists: Playlist[]): string => {
+  const taken = new Set(playlists.map(p => p.name.toLowerCase()));
+  if (!taken.has(base.toLowerCase())) return base;
+  let n = 2;
+  while (taken.has(`${base} ${n}`.toLowerCase())) n++;
+  return `${base} ${n}`;
+};
+
+/**
+ * Identifies a track across playlists, for what's kept per track (history,
+ * lyric offsets): its file, plus where it starts for a track of a CUE sheet,
+ * whose tracks all share one file
+ */
+export const trackKey = ({ path, start }: Pick<Track, "path" | "start">): string =>
+  start === undefined ? path : `${path}#${start}`;
+
+/** Same track as a new playlist entry, with its own id */
+export const copyTrack = (track: Track): Track => ({ ...track, id: newId() });
+
+export const duplicatePlaylist = (source: Playlist, playlists: Playlist[]): Playlist =>
+  createPlaylist(uniqueName(`${source.name} copy`, playlists), source.tracks.map(copyTrack));
+
+export const updatePlaylistTracks = (
+  playlists: Playlist[],
+  id: string,
+  update: (tracks: Track[]) => Track[]
+): Playlist[] =>
+  playlists.map(p => (p.id === id ? { ...p, tracks: update(p.tracks) } : p));
+
+/**
+ * Move the tracks with the given ids, keeping their relative order, so they
+ * land in front of whatever was at `insertAt` (an index into `tracks`).
+ */
+export const moveTracks = (tracks: Track[], ids: Set<string>, insertAt: number): Track[] => {
+  const moving = tracks.filter(t => ids.has(t.id));
+  const before = tracks.slice(0, insertAt).filter(t => !ids.has(t.id));
+  const after = tracks.slice(insertAt).filter(t => !ids.has(t.id));
+  return [...before, ...moving, ...after];
+};
+
+/** Ids of all tracks between two rows, inclusive, in either direction */
+export const idsInRange = (tracks: Track[], fromId: string, toId: string): string[] => {
+  const from = tracks.findIndex(t => t.id === fromId);
+  const to = tracks.findIndex(t => t.id === toId);
+  if (from === -1 || to === -1) return to === -1 ? [] : [toId];
+  const [start, end] = from < to ? [from, to] : [to, from];
+  return tracks.slice(start, end + 1).map(t => t.id);
+};
+
+// Dragging rows within the track list to reorder them, or onto another
+// playlist in the sidebar to copy them
+export const TRACK_DRAG_TYPE = "application/x-minplayer-tracks";
+
+export interface TrackDragPayload {
+  playlistId: string;
+  trackIds: string[];
+}
@@ -0,0 +1,46 @@
+import { ReplayGainInfo } from "../types";
+
+// ReplayGain: per-track loudness correction from tags written by a scanner.
+
+export type ReplayGainMode = "off" | "track" | "album";
+
+export interface ReplayGainSettings {
+  mode: ReplayGainMode;
+  // Extra gain in dB for files that have ReplayGain tags
+  preamp: number;
+  // Gain in dB for files without them, so they can be brought to a similar
+  // level. Off (0) unless the user sets it: untagged files play as they are.
+  fallbackPreamp: number;
+  // Lower the gain when the tagged peak would otherwise clip
+  preventClipping: boolean;
+}
+
+export const DEFAULT_REPLAY_GAIN: ReplayGainSettings = {
+  mode: "track",
+  preamp: 0,
+  fallbackPreamp: 0,
+  preventClipping: true
+};
+
+const dbToLinear = (db: number) => Math.pow(10, db / 20);
+
+/** Linear gain to apply to a track under the given settings */
+export function replayGainFactor(info: ReplayGainInfo | undefined, settings: ReplayGainSettings): number {
+  if (settings.mode === "off") return 1;
+
+  // Prefer the requested mode's values, but use the other set if that's all there is
+  const gain = settings.mode === "album"
+    ? info?.albumGain ?? info?.trackGain
+    : info?.trackGain ?? info?.albumGain;
+  const peak = settings.mode === "album"
+    ? info?.albumPeak ?? info?.trackPeak
+    : info?.trackPeak ?? info?.albumPeak;
+
+  if (gain === undefined) return dbToLinear(settings.fallbackPreamp);
+
+  let factor = dbToLinear(gain + settings.preamp);
+  if (settings.preventClipping && peak !== undefined && peak > 0 && factor * peak > 1) {
+    factor = 1 / peak;
+  }
+  return factor;
+}
@@ -0,0 +1,246 @@
+import { invoke } from "@tauri-apps/api/core";
+import { Playlist, ReplayGainInfo, Track } from "../types";
+import { createPlaylist, newId } from "./playlists";
+import { hasFile, readJson, readText, writeJson, writeText } from "./storage";
+
+// Playback session persisted between launches: the playlists, which one is
+// playing, the active track and where we were in it. Cover art is kept out of session.json and
+// cached as separate files (one per distinct image) so the session stays
+// small and albums sharing a cover only store it once.
+
+const SESSION_FILE = "session.json";
+const COVER_DIR = "covers";
+const SESSION_VERSION = 2;
+
+interface StoredTrack {
+  path: string;
+  title: string;
+  artist?: string;
+  album?: string;
+  albumArtist?: string;
+  trackNumber?: number;
+  discNumber?: number;
+  year?: number;
+  genre?: string;
+  bitrate?: number;
+  duration?: number;
+  replayGain?: ReplayGainInfo;
+  start?: number;
+  end?: number;
+  coverKey?: string;
+}
+
+interface StoredPlaylist {
+  id: string;
+  name: string;
+  tracks: StoredTrack[];
+}
+
+interface StoredSession {
+  version: number;
+  playlists: StoredPlaylist[];
+  viewedId: string | null;
+  playingId: string | null;
+  currentIndex: number;
+  currentTime: number;
+  volume: number;
+}
+
+// Version 1 had a single unnamed playlist
+interface StoredSessionV1 {
+  version: 1;
+  tracks: StoredTrack[];
+  currentIndex: number;
+  currentTime: number;
+  volume: number;
+}
+
+export interface Session {
+  playlists: Playlist[];
+  viewedId: string;
+  // Playlist the current track belongs to
+  playingId: string | null;
+  currentIndex: number;
+  currentTime: number;
+  volume: number;
+}
+
+// FNV-1a over the data URL, plus its length to make collisions unlikely
+const coverKeyFor = (cover: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < cover.length; i++) {
+    hash ^= cover.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16)}-${cover.length.toString(36)}`;
+};
+
+const coverFile = (key: string) => `${COVER_DIR}/${key}.txt`;
+
+// Covers already known to be on disk, so repeated saves don't re-check them
+const writtenCovers = new Set<string>();
+// Avoid re-hashing the same (large) data URL on every save
+const coverKeys = new Map<string, string>();
+
+async function storeCover(cover: string): Promise<string> {
+  let key = coverKeys.get(cover);
+  if (!key) {
+    key = coverKeyFor(cover);
+    coverKeys.set(cover, key);
+  }
+  if (!writtenCovers.has(key)) {
+    if (!(await hasFile(coverFile(key), "cache"))) {
+      await writeText(coverFile(key), cover, "cache");
+    }
+    writtenCovers.add(key);
+  }
+  return key;
+}
+
+async function storeTrack(track: Track): Promise<StoredTrack> {
+  let coverKey: string | undefined;
+  if (track.cover) {
+    try {
+      coverKey = await storeCover(track.cover);
+    } catch (e) {
+      console.error("Failed to cache cover:", e);
+    }
+  }
+  return {
+    path: track.path,
+    title: track.title,
+    artist: track.artist,
+    album: track.album,
+    albumArtist: track.albumArtist,
+    trackNumber: track.trackNumber,
+    discNumber: track.discNumber,
+    year: track.year,
+    genre: track.genre,
+    bitrate: track.bitrate,
+    duration: track.duration,
+    replayGain: track.replayGain,
+    start: track.start,
+    end: track.end,
+    coverKey
+  };
+}
+
+export async function saveSession(session: Session): Promise<void> {
+  const playlists: StoredPlaylist[] = [];
+  for (const playlist of session.playlists) {
+    const tracks: StoredTrack[] = [];
+    for (const track of playlist.tracks) {
+      tracks.push(await storeTrack(track));
+    }
+    playlists.push({ id: playlist.id, name: playlist.name, tracks });
+  }
+
+  const stored: StoredSession = {
+    version: SESSION_VERSION,
+    playlists,
+    viewedId: session.viewedId,
+    playingId: session.playingId,
+    currentIndex: session.currentIndex,
+    currentTime: session.currentTime,
+    volume: session.volume
+  };
+  await writeJson(SESSION_FILE, stored);
+}
+
+const migrateV1 = (v1: StoredSessionV1): StoredSession => {
+  const playlist = createPlaylist("Playlist 1");
+  return {
+    version: SESSION_VERSION,
+    playlists: [{ id: playlist.id, name: playlist.name, tracks: v1.tracks }],
+    viewedId: playlist.id,
+    playingId: v1.currentIndex >= 0 ? playlist.id : null,
+    currentIndex: v1.currentIndex,
+    currentTime: v1.currentTime,
+    volume: v1.volume
+  };
+};
+
+export async function loadSession(): Promise<Session | null> {
+  const raw = await readJson<StoredSession | StoredSessionV1>(SESSION_FILE);
+  if (!raw) return null;
+
+  let stored: StoredSession;
+  if (raw.version === 1 && Array.isArray((raw as StoredSessionV1).tracks)) {
+    stored = migrateV1(raw as StoredSessionV1);
+  } else if (raw.version === SESSION_VERSION && Array.isArray((raw as StoredSession).playlists)) {
+    stored = raw as StoredSession;
+  } else {
+    return null;
+  }
+  if (stored.playlists.length === 0) return null;
+
+  // Ask the backend which files are still there rather than failing later in playTrack
+  const allTracks = stored.playlists.flatMap(p => p.tracks);
+  let present: boolean[];
+  try {
+    present = await invoke<boolean[]>("paths_exist", { paths: allTracks.map(t => t.path) });
+  } catch (e) {
+    console.error("Failed to check restored paths:", e);
+    present = allTracks.map(() => true);
+  }
+
+  const covers = new Map<string, string | undefined>();
+  const restoreTrack = async (t: StoredTrack, exists: boolean): Promise<Track> => {
+    let cover: string | undefined;
+    if (t.coverKey) {
+      if (!covers.has(t.coverKey)) {
+        const data = await readText(coverFile(t.coverKey), "cache");
+        if (data) {
+          writtenCovers.add(t.coverKey);
+          coverKeys.set(data, t.coverKey);
+        }
+        covers.set(t.coverKey, data ?? undefined);
+      }
+      cover = covers.get(t.coverKey);
+    }
+    return {
+      id: newId(),
+      path: t.path,
+      title: t.title,
+      artist: t.artist,
+      album: t.album,
+      albumArtist: t.albumArtist,
+      trackNumber: t.trackNumber,
+      discNumber: t.discNumber,
+      year: t.year,
+      genre: t.genre,
+      bitrate: t.bitrate,
+      duration: t.duration,
+      replayGain: t.replayGain,
+      start: t.start,
+      end: t.end,
+      cover,
+      missing: !exists || undefined
+    };
+  };
+
+  let offset = 0;
+  const playlists: Playlist[] = [];
+  for (const p of stored.playlists) {
+    const tracks: Track[] = [];
+    for (let i = 0; i < p.tracks.length; i++) {
+      tracks.push(await restoreTrack(p.tracks[i], present[offset + i]));
+    }
+    offset += p.tracks.length;
+    playlists.push({ id: p.id, name: p.name, tracks });
+  }
+
+  const playing = playlists.find(p => p.id === stored.playingId);
+  const currentIndex = playing && stored.currentIndex >= 0 && stored.currentIndex < playing.tracks.length
+    ? stored.currentIndex
+    : -1;
+
+  return {
+    playlists,
+    viewedId: playlists.some(p => p.id === stored.viewedId) ? stored.viewedId! : playlists[0].id,
+    playingId: currentIndex === -1 ? null : playing!.id,
+    currentIndex,
+    currentTime: currentIndex === -1 ? 0 : Math.max(0, stored.currentTime || 0),
+    volume: typeof stored.volume === "number" ? Math.max(0, Math.min(1, stored.volume)) : 1
+  };
+}
@@ -0,0 +1,116 @@
+import { readJson, writeJson } from "./storage";
+import { DEFAULT_EQ, EqPreset, EqState, clampGain, normalizeBands } from "./equalizer";
+import { DEFAULT_REPLAY_GAIN, ReplayGainSettings } from "./replayGain";
+import { OptionalColumn, isOptionalColumn } from "./libraryView";
+import { VisualizerMode, isVisualizerMode } from "./visualizer";
+import { WindowBounds, WindowMode, isWindowBounds } from "./window";
+import {
+  DEFAULT_GLOBAL_SHORTCUTS,
+  GlobalShortcuts,
+  KeymapOverrides,
+  normalizeGlobalShortcuts,
+  normalizeOverrides
+} from "./keymap";
+
+// User preferences, persisted as settings.json next to the session.
+
+const SETTINGS_FILE = "settings.json";
+
+export interface Settings {
+  // Seconds of overlap between tracks; 0 plays them back to back without a gap
+  crossfadeSeconds: number;
+  equalizer: EqState;
+  customEqPresets: EqPreset[];
+  replayGain: ReplayGainSettings;
+  // Write exported playlists with paths relative to the playlist file
+  exportRelativePaths: boolean;
+  // Playlist sidebar next to the track list
+  showSidebar: boolean;
+  // Lyrics of the current track in place of the track list
+  showLyrics: boolean;
+  // Track list columns shown besides #, Title and Duration
+  playlistColumns: OptionalColumn[];
+  // Folders audio may be played from; null until first set, which means
+  // the backend's defaults
+  musicFolders: string[] | null;
+  visualizer: VisualizerMode;
+  // Keep the pitch when playing faster or slower than normal
+  preservePitch: boolean;
+  // Rebound keyboard shortcuts
+  keymap: KeymapOverrides;
+  // Seconds moved by the seek shortcuts
+  seekStep: number;
+  // Volume change per shortcut press, 0-1
+  volumeStep: number;
+  // System-wide shortcuts, registered while the app runs
+  globalShortcuts: GlobalShortcuts;
+  // Closing the window hides it to the tray instead of quitting
+  keepPlayingWhenClosed: boolean;
+  // Compact always-on-top window instead of the full player
+  miniPlayer: boolean;
+  // Where each window mode was last left
+  windowBounds: Partial<Record<WindowMode, WindowBounds>>;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  crossfadeSeconds: 0,
+  equalizer: DEFAULT_EQ,
+  customEqPresets: [],
+  replayGain: DEFAULT_REPLAY_GAIN,
+  exportRelativePaths: true,
+  showSidebar: false,
+  showLyrics: false,
+  playlistColumns: [],
+  musicFolders: null,
+  visualizer: "spectrum",
+  preservePitch: true,
+  keymap: {},
+  seekStep: 5,
+  volumeStep: 0.1,
+  globalShortcuts: DEFAULT_GLOBAL_SHORTCUTS,
+  keepPlayingWhenClosed: false,
+  miniPlayer: false,
+  windowBounds: {}
+};
+
+// A stored step within the range the shortcuts panel allows, or the default
+// if it isn't a usable number
+const normalizeStep = (value: unknown, min: number, max: number, fallback: number): number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.max(min, Math.min(max, value)) : fallback;
+
+export async function loadSettings(): Promise<Settings> {
+  const stored = await readJson<Partial<Settings>>(SETTINGS_FILE);
+  // Merge so settings added in later versions pick up their defaults
+  const settings = { ...DEFAULT_SETTINGS, ...(stored ?? {}) };
+  settings.equalizer = {
+    ...DEFAULT_EQ,
+    ...settings.equalizer,
+    preamp: clampGain(settings.equalizer?.preamp),
+    bands: normalizeBands(settings.equalizer?.bands)
+  };
+  settings.customEqPresets = (Array.isArray(settings.customEqPresets) ? settings.customEqPresets : [])
+    .filter(p => p && typeof p.name === "string")
+    .map(p => ({ name: p.name, preamp: clampGain(p.preamp), bands: normalizeBands(p.bands) }));
+  settings.replayGain = { ...DEFAULT_REPLAY_GAIN, ...settings.replayGain };
+  settings.playlistColumns = Array.isArray(settings.playlistColumns)
+    ? settings.playlistColumns.filter(isOptionalColumn)
+    : [];
+  settings.musicFolders = Array.isArray(settings.musicFolders)
+    ? settings.musicFolders.filter(f => typeof f === "string")
+    : null;
+  if (!isVisualizerMode(settings.visualizer)) settings.visualizer = DEFAULT_SETTINGS.visualizer;
+  settings.keymap = normalizeOverrides(settings.keymap);
+  settings.seekStep = normalizeStep(settings.seekStep, 1, 60, DEFAULT_SETTINGS.seekStep);
+  settings.volumeStep = normalizeStep(settings.volumeStep, 0.01, 0.5, DEFAULT_SETTINGS.volumeStep);
+  settings.globalShortcuts = normalizeGlobalShortcuts(settings.globalShortcuts);
+  const bounds = settings.windowBounds ?? {};
+  settings.windowBounds = {
+    full: isWindowBounds(bounds.full) ? bounds.full : undefined,
+    mini: isWindowBounds(bounds.mini) ? bounds.mini : undefined
+  };
+  return settings;
+}
+
+export async function saveSettings(settings: Settings): Promise<void> {
+  await writeJson(SETTINGS_FILE, settings);
+}
@@ -0,0 +1,72 @@
+import { BaseDirectory, exists, mkdir, readTextFile, remove, writeTextFile } from "@tauri-apps/plugin-fs";
+
+// Small JSON/text store on top of the app's data and cache directories.
+// Everything the app persists between launches goes through here.
+
+export type StorageLocation = "data" | "cache";
+
+const baseDir = (location: StorageLocation) =>
+  location === "data" ? BaseDirectory.AppData : BaseDirectory.AppCache;
+
+const parentOf = (name: string) => {
+  const idx = name.lastIndexOf("/");
+  return idx === -1 ? "" : name.slice(0, idx);
+};
+
+async function ensureDir(name: string, location: StorageLocation) {
+  // create_dir_all semantics: a no-op when the directory already exists.
+  // The app directory itself may not exist yet on first launch.
+  await mkdir(parentOf(name) || ".", { baseDir: baseDir(location), recursive: true });
+}
+
+export async function hasFile(name: string, location: StorageLocation = "data"): Promise<boolean> {
+  try {
+    return await exists(name, { baseDir: baseDir(location) });
+  } catch {
+    return false;
+  }
+}
+
+export async function readText(name: string, location: StorageLocation = "data"): Promise<string | null> {
+  try {
+    if (!(await hasFile(name, location))) return null;
+    return await readTextFile(name, { baseDir: baseDir(location) });
+  } catch (e) {
+    console.error(`Failed to read ${name}:`, e);
+    return null;
+  }
+}
+
+export async function writeText(name: string, contents: string, location: StorageLocation = "data") {
+  await ensureDir(name, location);
+  await writeTextFile(name, contents, { baseDir: baseDir(location) });
+}
+
+/** Add to the end of a text file, creating it if needed */
+export async function appendText(name: string, contents: string, location: StorageLocation = "data") {
+  await ensureDir(name, location);
+  await writeTextFile(name, contents, { baseDir: baseDir(location), append: true });
+}
+
+export async function removeFile(name: string, location: StorageLocation = "data") {
+  try {
+    await remove(name, { baseDir: baseDir(location) });
+  } catch {
+    // Already gone
+  }
+}
+
+export async function readJson<T>(name: string, location: StorageLocation = "data"): Promise<T | null> {
+  const text = await readText(name, location);
+  if (text === null) return null;
+  try {
+    return JSON.parse(text) as T;
+  } catch (e) {
+    console.error(`Corrupt JSON in ${name}:`, e);
+    return null;
+  }
+}
+
+export async function writeJson(name: string, data: unknown, location: StorageLocation = "data") {
+  await writeText(name, JSON.stringify(data), location);
+}
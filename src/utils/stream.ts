@@ -0,0 +1,10 @@
+import { convertFileSrc } from "@tauri-apps/api/core";
+
+// Audio files are served by the backend's stream:// protocol, which answers
+// HTTP range requests. Playback starts right away, seeking only fetches what
+// it needs, and nothing is held in memory beyond what the player buffers.
+
+const STREAM_SCHEME = "stream";
+
+/** URL the audio engine can play a local file from */
+export const streamUrl = (path: string): string => convertFileSrc(path, STREAM_SCHEME);
@@ -0,0 +1,37 @@
+import { invoke } from "@tauri-apps/api/core";
+import { AudioMetadata, LibraryTrack } from "../types";
+
+// Reading and editing a file's tags through the backend (lofty)
+
+export type CoverEdit =
+  | { action: "keep" }
+  | { action: "remove" }
+  | { action: "replace"; path: string };
+
+/** Values written by `writeTags`; empty or missing fields remove the tag */
+export interface TagEdit {
+  title?: string;
+  artist?: string;
+  album?: string;
+  albumArtist?: string;
+  trackNumber?: number;
+  discNumber?: number;
+  year?: number;
+  genre?: string;
+  cover: CoverEdit;
+}
+
+export async function readMetadata(path: string): Promise<AudioMetadata | null> {
+  return invoke<AudioMetadata | null>("get_metadata", { path });
+}
+
+/** Write tags to the file; resolves with its library entry as stored afterwards */
+export async function writeTags(path: string, tags: TagEdit): Promise<LibraryTrack> {
+  return invoke<LibraryTrack>("write_tags", { path, tags });
+}
+
+export const formatChannels = (channels: number): string =>
+  channels === 1 ? "Mono" : channels === 2 ? "Stereo" : `${channels} channels`;
+
+export const formatSampleRate = (hz: number): string =>
+  `${(hz / 1000).toLocaleString(undefined, { maximumFractionDigits: 1 })} kHz`;
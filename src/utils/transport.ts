@@ -0,0 +1,34 @@
+// Playback rate and A-B loop helpers for the transport controls
+
+export const MIN_RATE = 0.5;
+export const MAX_RATE = 2;
+export const RATE_STEP = 0.1;
+
+// Fine seek steps. A "frame" is one video frame at 25 fps, fine enough to
+// line a transcript up with speech.
+export const SECOND_STEP = 1;
+export const FRAME_STEP = 1 / 25;
+
+/** Loop points; the loop only plays once both are set */
+export interface LoopPoints {
+  start: number;
+  end: number | null;
+}
+
+export const clampRate = (rate: number) =>
+  // Round off float drift from repeated steps
+  Math.round(Math.min(MAX_RATE, Math.max(MIN_RATE, rate)) * 100) / 100;
+
+export const formatRate = (rate: number) => `${rate.toFixed(2)}×`;
+
+/** Set A at `time`, dropping B if it would no longer come after it */
+export const withLoopStart = (loop: LoopPoints | null, time: number): LoopPoints => ({
+  start: time,
+  end: loop?.end != null && loop.end > time ? loop.end : null
+});
+
+/** Set B at `time`; without an A before it, the loop starts at the beginning */
+export const withLoopEnd = (loop: LoopPoints | null, time: number): LoopPoints => {
+  const start = loop && loop.start < time ? loop.start : 0;
+  return { start, end: time > start ? time : null };
+};
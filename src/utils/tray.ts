@@ -0,0 +1,29 @@
+import { invoke } from "@tauri-apps/api/core";
+import { CommandId, GlobalShortcuts, toAccelerator } from "./keymap";
+
+// The tray menu and global shortcuts live in the backend. Both send their
+// commands back as events, which run through the same handler as the keys.
+
+/** Payload is a keymap command id */
+export const COMMAND_EVENT = "player-command";
+/** Payload is whether "keep playing" was switched on from the tray */
+export const KEEP_PLAYING_EVENT = "keep-playing-changed";
+
+export async function updateTray(title: string | null, artist: string | null, playing: boolean): Promise<void> {
+  await invoke("update_tray", { title, artist, playing });
+}
+
+export async function setKeepPlaying(enabled: boolean): Promise<void> {
+  await invoke("set_keep_playing", { enabled });
+}
+
+/** Registers the shortcuts, replacing earlier ones; resolves with the chords that couldn't be taken */
+export async function setGlobalShortcuts(shortcuts: GlobalShortcuts): Promise<string[]> {
+  const bindings = Object.entries(shortcuts).flatMap(([command, chords]) =>
+    (chords ?? []).map(chord => ({ accelerator: toAccelerator(chord), command: command as CommandId, chord }))
+  );
+  const failed = await invoke<string[]>("set_global_shortcuts", {
+    bindings: bindings.map(({ accelerator, command }) => ({ accelerator, command }))
+  });
+  return bindings.filter(b => failed.includes(b.accelerator)).map(b => b.chord);
+}
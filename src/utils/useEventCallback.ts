@@ -0,0 +1,16 @@
+import { useCallback, useLayoutEffect, useRef } from "react";
+
+/**
+ * A callback whose identity never changes but always runs the latest `fn`.
+ * For handlers passed to memoized children (e.g. every row of a long list),
+ * where a new function on each render would re-render all of them.
+ */
+export function useEventCallback<Args extends unknown[], Result>(
+  fn: (...args: Args) => Result
+): (...args: Args) => Result {
+  const ref = useRef(fn);
+  useLayoutEffect(() => {
+    ref.current = fn;
+  });
+  return useCallback((...args: Args) => ref.current(...args), []);
+}
@@ -0,0 +1,43 @@
+// Visualizer modes and the level maths behind the meters
+
+export type VisualizerMode = "off" | "spectrum" | "oscilloscope" | "meters";
+
+export const VISUALIZER_MODES: { id: VisualizerMode; label: string }[] = [
+  { id: "off", label: "Off" },
+  { id: "spectrum", label: "Spectrum" },
+  { id: "oscilloscope", label: "Oscilloscope" },
+  { id: "meters", label: "Peak/RMS Meters" }
+];
+
+export const isVisualizerMode = (value: unknown): value is VisualizerMode =>
+  VISUALIZER_MODES.some(m => m.id === value);
+
+/** The mode after this one, wrapping around through "off" */
+export const nextVisualizerMode = (mode: VisualizerMode): VisualizerMode => {
+  const idx = VISUALIZER_MODES.findIndex(m => m.id === mode);
+  return VISUALIZER_MODES[(idx + 1) % VISUALIZER_MODES.length].id;
+};
+
+// Bottom of the meter scale
+export const METER_FLOOR_DB = -60;
+
+export interface Levels {
+  peak: number;
+  rms: number;
+}
+
+/** Peak and RMS of a block of samples, in dBFS */
+export function measureLevels(samples: Float32Array): Levels {
+  let peak = 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const s = samples[i];
+    peak = Math.max(peak, Math.abs(s));
+    sum += s * s;
+  }
+  const toDb = (value: number) => (value > 0 ? Math.max(METER_FLOOR_DB, 20 * Math.log10(value)) : METER_FLOOR_DB);
+  return { peak: toDb(peak), rms: toDb(Math.sqrt(sum / (samples.length || 1))) };
+}
+
+/** Position of a level on the meter, 0 (floor) to 1 (0 dBFS) */
+export const meterPosition = (db: number) => Math.min(1, Math.max(0, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
@@ -0,0 +1,10 @@
+import { invoke } from "@tauri-apps/api/core";
+
+/**
+ * Peaks of a file's waveform, 0-255 of full scale. The backend decodes the
+ * file once and caches the result on disk; formats it can't decode reject.
+ * With `start` and `end` (seconds) only that part of the file is returned.
+ */
+export async function loadWaveform(path: string, start?: number, end?: number): Promise<number[]> {
+  return invoke<number[]>("get_waveform", { path, start: start ?? null, end: end ?? null });
+}
@@ -0,0 +1,55 @@
+import { invoke } from "@tauri-apps/api/core";
+import { getCurrentWindow } from "@tauri-apps/api/window";
+
+// The main window is either the full player or the compact mini player.
+// Each mode keeps its own size and position, tracked here as the window is
+// moved and resized and persisted with the settings.
+
+export type WindowMode = "full" | "mini";
+
+/** Outer position and inner size, in logical pixels */
+export interface WindowBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Moves and resizes arrive continuously while dragging; only where the
+// window ends up is worth saving
+const SETTLE_MS = 500;
+
+export const isWindowBounds = (value: unknown): value is WindowBounds =>
+  !!value && typeof value === "object" &&
+  (["x", "y", "width", "height"] as const).every(key => Number.isFinite((value as WindowBounds)[key]));
+
+export async function windowBounds(): Promise<WindowBounds> {
+  const window = getCurrentWindow();
+  const [scale, position, size] = await Promise.all([window.scaleFactor(), window.outerPosition(), window.innerSize()]);
+  const { x, y } = position.toLogical(scale);
+  const { width, height } = size.toLogical(scale);
+  return { x, y, width, height };
+}
+
+/** Switch modes; without bounds the mode opens at its default size */
+export async function setMiniPlayer(mini: boolean, bounds?: WindowBounds): Promise<void> {
+  await invoke("set_mini_player", { mini, bounds: bounds ?? null });
+}
+
+/** Report the window's bounds whenever it settles after a move or resize */
+export async function watchWindowBounds(onChange: (bounds: WindowBounds) => void): Promise<() => void> {
+  const window = getCurrentWindow();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const settle = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      windowBounds().then(onChange).catch(e => console.error("Failed to read window bounds:", e));
+    }, SETTLE_MS);
+  };
+  const unlisten = await Promise.all([window.onMoved(settle), window.onResized(settle)]);
+  return () => {
+    if (timer) clearTimeout(timer);
+    unlisten.forEach(u => u());
+  };
+}